@@ -1,3 +1,5 @@
+import { PipelineConfig } from "./ARDR_types";
+
 export const MODELS = {
   profiler: "meta-llama/llama-3.3-70b-instruct:free",
   cheap: "google/gemini-2.0-flash-001",
@@ -15,6 +17,111 @@ export const MODELS = {
   chiefMax: "anthropic/claude-opus-4"
 } as const;
 
+export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
+  models: {
+    profiler: MODELS.profiler,
+    cheap: MODELS.cheap,
+    condenser: MODELS.condenser
+  },
+  fallbacks: {
+    profiler: [MODELS.cheap],
+    cheap: [],
+    condenser: [MODELS.cheap]
+  },
+  branches: {},
+  tiers: {
+    low: { label: "Low (Llama 3.3 70B)", chiefModel: MODELS.chiefLow, fallbackModels: [], maxDepth: 1, reflectionRounds: 0, samples: 1, synthesisMaxTokens: 2000, synthesisCandidates: 1, candidateModels: [], toolCalls: 2 },
+    high: { label: "High (Deepseek V3.2)", chiefModel: MODELS.chiefHigh, fallbackModels: [MODELS.chiefLow], maxDepth: 2, reflectionRounds: 1, samples: 2, synthesisMaxTokens: 4000, synthesisCandidates: 1, candidateModels: [], toolCalls: 6 },
+    max: { label: "Max (Opus 4.5)", chiefModel: MODELS.chiefMax, fallbackModels: [MODELS.chiefHigh, MODELS.chiefLow], maxDepth: 3, reflectionRounds: 2, samples: 3, synthesisMaxTokens: 8000, synthesisCandidates: 1, candidateModels: [], toolCalls: 12 }
+  },
+  temperature: 0.7,
+  maxTokens: {
+    profiler: 1500,
+    decomposition: 1500,
+    branch: 800,
+    verification: 600,
+    controller: 400,
+    conversation: 1500
+  },
+  thresholds: {
+    uncertainty: 0.55,
+    minBranchScore: 0.5
+  },
+  // USD per million tokens; models missing here are reported as unpriced
+  pricing: {
+    [MODELS.profiler]: { prompt: 0, completion: 0 },
+    [MODELS.cheap]: { prompt: 0.1, completion: 0.4 },
+    [MODELS.world]: { prompt: 0.4, completion: 1.6 },
+    [MODELS.code]: { prompt: 3, completion: 15 },
+    [MODELS.chiefHigh]: { prompt: 0.27, completion: 1.1 },
+    [MODELS.chiefMax]: { prompt: 15, completion: 75 }
+  },
+  retry: {
+    attempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 15000
+  },
+  timeouts: {
+    call: 60000,
+    synthesis: 180000
+  },
+  // Runs model-written code on this machine; see runCode before turning it on
+  execution: {
+    enabled: false,
+    branches: ["code"],
+    maxBlocks: 4,
+    timeoutMs: 10000,
+    memoryMb: 256,
+    maxOutputBytes: 16000
+  },
+  math: {
+    enabled: true,
+    taskTypes: ["math"],
+    maxClaims: 20
+  },
+  deadline: {
+    runMs: 0,
+    synthesisReserveMs: 60000,
+    verificationReserveMs: 30000
+  },
+  cache: {
+    enabled: true,
+    ttlMs: 24 * 60 * 60 * 1000,
+    maxEntries: 2000,
+    maxBytes: 200 * 1024 * 1024
+  },
+  retrieval: {
+    enabled: false,
+    dir: "docs",
+    extensions: [".md", ".markdown", ".txt", ".rst", ".pdf", ".ts", ".js", ".py", ".go", ".rs", ".java", ".json", ".yaml", ".yml"],
+    maxFileBytes: 2 * 1024 * 1024,
+    chunkChars: 1200,
+    chunkOverlap: 200,
+    topK: 4,
+    maxSearches: 2,
+    branches: ["world"]
+  },
+  tools: {
+    enabled: false,
+    root: ".",
+    maxSteps: 4,
+    maxResultChars: 4000,
+    timeoutMs: 15000
+  },
+  attachments: {
+    maxFileBytes: 512 * 1024,
+    maxFiles: 50,
+    inlineChars: 24000,
+    chunkChars: 16000,
+    summaryMaxTokens: 600
+  },
+  // Ground-truth checks and sample disagreement outweigh self-reports until a calibration is fitted
+  uncertainty: {
+    temperature: 0.9,
+    weights: { verifier: 1, confidence: 1, samples: 1.5, branches: 1, claims: 1.5, checks: 2 }
+  }
+};
+
 export const colors = {
   reset: "\x1b[0m",
   bright: "\x1b[1m",
@@ -1,24 +1,75 @@
-import { MODELS, colors } from "./ARDR_models";
 import { 
   NexusTier, 
   ReasoningBudget, 
+  ReflectionDelta,
   TriStructurePack, 
   BranchOutput, 
   Scratchpad, 
   VerificationResult, 
   ARDRState,
-  BranchConfig 
+  RunContext,
+  SynthesisCandidate,
+  SynthesisJudgement
 } from "./ARDR_types";
-import { log, logSection, callModel, callModelStreaming, parseJsonFromResponse } from "./ARDR_utils";
+import { callModel, callModelStreaming, ModelCallError, parseJsonFromResponse, timeLeft } from "./ARDR_utils";
+import { emitLog } from "./ARDR_events";
+import { estimateCost, estimateTokens, formatCost, runCost } from "./ARDR_costs";
+import {
+  BRANCH_OUTPUT_FORMAT,
+  branchSystemPrompt,
+  callBranch,
+  failedBranchOutput,
+  getBranch,
+  listBranches,
+  resolveBranchModel,
+  sampleBranch
+} from "./ARDR_branches";
+import {
+  CONSISTENCY_SCHEMA,
+  CONTROLLER_SCHEMA,
+  COUNTEREXAMPLE_SCHEMA,
+  PROFILER_SCHEMA,
+  SHARED_ARTIFACTS_SCHEMA,
+  SYNTHESIS_JUDGE_SCHEMA,
+  callModelJson,
+  validateOutput
+} from "./ARDR_schemas";
+import { executeBranchArtifacts, formatExecutionTrace, summarizeExecution } from "./ARDR_sandbox";
+import { checkMathClaims } from "./ARDR_math";
+import { buildEvidenceGraph, claimNodes, summarizeGraph, survivingClaims } from "./ARDR_graph";
+import { formatUncertaintySignals, measureUncertainty } from "./ARDR_uncertainty";
+import { citedPassages, collectCitations, formatCitationSource } from "./ARDR_retrieval";
+import { formatToolCall } from "./ARDR_tools";
+
+function selectBranches(requested: string[], available: string[]): string[] {
+  const known = requested.filter(name => available.includes(name));
+  // An explicit [] means "conversation"; a list of only unknown or disabled branches does not
+  if (known.length > 0 || requested.length === 0) return known;
+  const defaults = ["logic", "world"].filter(name => available.includes(name));
+  return defaults.length > 0 ? defaults : available;
+}
+
+// Auxiliary calls degrade to null on a model failure; the caller picks the fallback value
+async function orNull<T>(ctx: RunContext, stage: string, call: Promise<T>): Promise<T | null> {
+  try {
+    return await call;
+  } catch (error) {
+    if (!(error instanceof ModelCallError)) throw error;
+    emitLog(ctx, stage, `Unavailable (${error.kind}), continuing without it`, "warning");
+    if (error.kind === "deadline") ctx.degradations.push(`${stage} skipped at the deadline`);
+    return null;
+  }
+}
 
 export async function stage0_TaskProfiler(
   prompt: string, 
   tier: NexusTier, 
-  debug: boolean
+  ctx: RunContext
 ): Promise<ReasoningBudget> {
-  logSection("STAGE 0: Task Profiler & Budget Allocator");
-  log("Profiler", "Analyzing task complexity and allocating reasoning budget...", colors.cyan);
+  ctx.emit({ type: "stage:start", stage: "profiler", title: "STAGE 0: Task Profiler & Budget Allocator" });
+  emitLog(ctx, "Profiler", "Analyzing task complexity and allocating reasoning budget...", "info");
 
+  const available = listBranches().filter(b => ctx.config.branches[b.name]?.enabled !== false);
   const systemPrompt = `You are a Task Profiler for an advanced AI reasoning system. Analyze the user's request and output a JSON object with:
 - taskType: one of "code", "math", "writing", "reasoning", "world_knowledge", "multi_step", "data_analysis", "conversation"
   - Use "conversation" for: greetings, casual chat, simple questions, introductions, emotional support, small talk
@@ -26,42 +77,57 @@ export async function stage0_TaskProfiler(
 - complexity: one of "low", "medium", "high", "extreme"
 - riskScore: 0.0 to 1.0 (hallucination risk)
 - allowedDepth: 1-3 (reasoning passes allowed)
-- requiredBranches: array of needed branch types from ["logic", "pattern", "world", "code", "adversarial"]
+- requiredBranches: array of needed branch types from [${available.map(b => `"${b.name}"`).join(", ")}]
+${available.map(b => `  - ${b.name}: ${b.description}`).join("\n")}
   - For "conversation" type, use empty array []
 
 Be concise. Output ONLY valid JSON, no explanation.`;
 
-  const response = await callModel(MODELS.profiler, systemPrompt, `Analyze this task:\n\n${prompt}`);
+  const result = await orNull(ctx, "Profiler", callModelJson(
+    PROFILER_SCHEMA, "Profiler", ctx.config.models.profiler, systemPrompt,
+    `Analyze this task:\n\n${prompt}`, ctx.config.maxTokens.profiler, ctx,
+    { fallbacks: ctx.config.fallbacks.profiler, stage: "profiler" }
+  ));
+  const parsed = result?.value;
   
+  const tierSettings = ctx.config.tiers[tier];
+  const toolCalls = ctx.config.tools.enabled ? tierSettings.toolCalls : 0;
   let budget: ReasoningBudget;
-  const parsed = parseJsonFromResponse(response);
   
   if (parsed) {
     budget = {
-      taskType: parsed.taskType || "reasoning",
-      complexity: parsed.complexity || "medium",
-      riskScore: parsed.riskScore || 0.5,
-      allowedDepth: Math.min(parsed.allowedDepth || 2, tier === "max" ? 3 : tier === "high" ? 2 : 1),
-      branches: parsed.requiredBranches || ["logic", "world"],
-      chiefModel: tier === "max" ? MODELS.chiefMax : tier === "high" ? MODELS.chiefHigh : MODELS.chiefLow
+      taskType: parsed.taskType,
+      complexity: parsed.complexity,
+      riskScore: parsed.riskScore,
+      allowedDepth: Math.min(parsed.allowedDepth, tierSettings.maxDepth),
+      reflectionRounds: tierSettings.reflectionRounds,
+      samples: tierSettings.samples,
+      toolCalls,
+      branches: selectBranches(parsed.requiredBranches, available.map(b => b.name)),
+      chiefModel: tierSettings.chiefModel,
+      maxCost: ctx.config.maxRunCost
     };
   } else {
     budget = {
       taskType: "reasoning",
       complexity: "medium",
       riskScore: 0.5,
-      allowedDepth: tier === "max" ? 3 : tier === "high" ? 2 : 1,
-      branches: ["logic", "world", "code"],
-      chiefModel: tier === "max" ? MODELS.chiefMax : tier === "high" ? MODELS.chiefHigh : MODELS.chiefLow
+      allowedDepth: tierSettings.maxDepth,
+      reflectionRounds: tierSettings.reflectionRounds,
+      samples: tierSettings.samples,
+      toolCalls,
+      branches: selectBranches(["logic", "world", "code"], available.map(b => b.name)),
+      chiefModel: tierSettings.chiefModel,
+      maxCost: ctx.config.maxRunCost
     };
   }
 
-  if (debug) {
-    console.log(`${colors.dim}Budget:${colors.reset}`, JSON.stringify(budget, null, 2));
+  if (ctx.debug) {
+    ctx.emit({ type: "debug", title: "BUDGET", lines: [JSON.stringify(budget, null, 2)] });
   }
 
-  log("Profiler", `Task: ${budget.taskType} | Complexity: ${budget.complexity} | Risk: ${budget.riskScore.toFixed(2)} | Depth: ${budget.allowedDepth}`, colors.green);
-  log("Profiler", `Branches: ${budget.branches.join(", ")}`, colors.green);
+  emitLog(ctx, "Profiler", `Task: ${budget.taskType} | Complexity: ${budget.complexity} | Risk: ${budget.riskScore.toFixed(2)} | Depth: ${budget.allowedDepth}`, "success");
+  emitLog(ctx, "Profiler", `Branches: ${budget.branches.join(", ")}`, "success");
 
   return budget;
 }
@@ -69,65 +135,75 @@ Be concise. Output ONLY valid JSON, no explanation.`;
 export async function stageA_StructuredDecomposition(
   prompt: string, 
   budget: ReasoningBudget, 
-  debug: boolean
+  ctx: RunContext
 ): Promise<TriStructurePack> {
-  logSection("STAGE A: Structured Decomposition Layer");
-  log("Decomposer", "Creating Tri-Structure Pack...", colors.cyan);
+  ctx.emit({ type: "stage:start", stage: "decomposition", title: "STAGE A: Structured Decomposition Layer" });
+  emitLog(ctx, "Decomposer", "Creating Tri-Structure Pack...", "info");
 
   const [symbolic, invariants, formal] = await Promise.all([
     (async () => {
-      log("Symbolic", "Extracting entities, relations, and operations...", colors.yellow);
-      return await callModel(
-        MODELS.cheap,
+      emitLog(ctx, "Symbolic", "Extracting entities, relations, and operations...", "progress");
+      return (await orNull(ctx, "Symbolic", callModel(
+        ctx.config.models.cheap,
         `You are a Symbolic Abstractor. Convert the problem into symbolic form:
 - Identify key entities/variables
 - Extract relationships between them
 - Define operations and transformations needed
 - Express constraints in logical notation
 Keep output under 400 tokens. Be precise and formal.`,
-        `Extract symbolic structure from:\n\n${prompt}`
-      );
+        `Extract symbolic structure from:\n\n${prompt}`,
+        ctx.config.maxTokens.decomposition,
+        ctx,
+        { fallbacks: ctx.config.fallbacks.cheap, stage: "decomposition" }
+      ))) ?? "";
     })(),
 
     (async () => {
-      log("Invariants", "Extracting core invariants and constraints...", colors.yellow);
-      return await callModel(
-        MODELS.cheap,
+      emitLog(ctx, "Invariants", "Extracting core invariants and constraints...", "progress");
+      return (await orNull(ctx, "Invariants", callModel(
+        ctx.config.models.cheap,
         `You are an Invariant Reducer. Extract the core invariants:
 - What must remain true throughout the solution?
 - What are the hard constraints?
 - What can be simplified or removed as noise?
 - What dependencies exist between components?
 Keep output under 400 tokens. Focus on what cannot change.`,
-        `Extract invariants from:\n\n${prompt}`
-      );
+        `Extract invariants from:\n\n${prompt}`,
+        ctx.config.maxTokens.decomposition,
+        ctx,
+        { fallbacks: ctx.config.fallbacks.cheap, stage: "decomposition" }
+      ))) ?? "";
     })(),
 
     (async () => {
-      log("Formalizer", "Creating formal specification...", colors.yellow);
-      return await callModel(
-        MODELS.cheap,
+      emitLog(ctx, "Formalizer", "Creating formal specification...", "progress");
+      return (await orNull(ctx, "Formalizer", callModel(
+        ctx.config.models.cheap,
         `You are a Formalizer. Create a formal representation:
 - For code: input/output contracts, algorithm sketch, data structures
 - For math: equations, proofs outline, theorems to apply
 - For writing: structure outline, key arguments, logical flow
 - For reasoning: decision tree, evaluation criteria, success metrics
 Keep output under 400 tokens. Use pseudo-code or formal notation.`,
-        `Formalize this problem:\n\n${prompt}`
-      );
+        `Formalize this problem:\n\n${prompt}`,
+        ctx.config.maxTokens.decomposition,
+        ctx,
+        { fallbacks: ctx.config.fallbacks.cheap, stage: "decomposition" }
+      ))) ?? "";
     })()
   ]);
 
   const triPack: TriStructurePack = { symbolic, invariants, formal };
 
-  if (debug) {
-    console.log(`\n${colors.dim}=== TRI-STRUCTURE PACK ===${colors.reset}`);
-    console.log(`${colors.cyan}[Symbolic]${colors.reset}\n${symbolic.slice(0, 500)}...`);
-    console.log(`${colors.cyan}[Invariants]${colors.reset}\n${invariants.slice(0, 500)}...`);
-    console.log(`${colors.cyan}[Formal]${colors.reset}\n${formal.slice(0, 500)}...`);
+  if (ctx.debug) {
+    ctx.emit({ type: "debug", title: "TRI-STRUCTURE PACK", lines: [
+      `[Symbolic]\n${symbolic.slice(0, 500)}...`,
+      `[Invariants]\n${invariants.slice(0, 500)}...`,
+      `[Formal]\n${formal.slice(0, 500)}...`
+    ] });
   }
 
-  log("Decomposer", "Tri-Structure Pack complete", colors.green);
+  emitLog(ctx, "Decomposer", "Tri-Structure Pack complete", "success");
   return triPack;
 }
 
@@ -136,58 +212,10 @@ export async function stageB_DendriticBranches(
   triPack: TriStructurePack, 
   budget: ReasoningBudget,
   scratchpad: Scratchpad,
-  debug: boolean
+  ctx: RunContext
 ): Promise<BranchOutput[]> {
-  logSection("STAGE B: Dendritic Branch Network");
-  log("Branches", `Activating ${budget.branches.length} specialized branches...`, colors.cyan);
-
-  const branchConfigs: Record<string, BranchConfig> = {
-    logic: {
-      model: MODELS.logic,
-      systemPrompt: `You are the Logic Branch of a reasoning network. Analyze using formal logic:
-- Apply deductive reasoning
-- Check for logical fallacies
-- Build proof chains
-- Identify necessary and sufficient conditions
-Output JSON: { "hypotheses": [...], "artifacts": [...], "notes": "...", "contradictions": [...], "confidence": 0.0-1.0 }`
-    },
-    pattern: {
-      model: MODELS.pattern,
-      systemPrompt: `You are the Pattern Branch of a reasoning network. Analyze patterns and structures:
-- Identify recurring patterns
-- Find analogies to known problems
-- Detect spatial/temporal relationships
-- Recognize transformations
-Output JSON: { "hypotheses": [...], "artifacts": [...], "notes": "...", "contradictions": [...], "confidence": 0.0-1.0 }`
-    },
-    world: {
-      model: MODELS.world,
-      systemPrompt: `You are the World Knowledge Branch of a reasoning network. Apply real-world knowledge:
-- Verify factual claims
-- Apply domain expertise
-- Check temporal consistency
-- Validate against known principles
-Output JSON: { "hypotheses": [...], "artifacts": [...], "notes": "...", "contradictions": [...], "confidence": 0.0-1.0 }`
-    },
-    code: {
-      model: MODELS.code,
-      systemPrompt: `You are the Code/Algorithm Branch of a reasoning network. Focus on implementation:
-- Design algorithms
-- Write code solutions
-- Optimize for efficiency
-- Handle edge cases
-Output JSON: { "hypotheses": [...], "artifacts": [...], "notes": "...", "contradictions": [...], "confidence": 0.0-1.0 }`
-    },
-    adversarial: {
-      model: MODELS.adversarial,
-      systemPrompt: `You are the Adversarial Branch of a reasoning network. Challenge everything:
-- Find counterexamples
-- Stress test assumptions
-- Identify failure modes
-- Attack weak arguments
-Output JSON: { "hypotheses": [...], "artifacts": [...], "notes": "...", "contradictions": [...], "confidence": 0.0-1.0 }`
-    }
-  };
+  ctx.emit({ type: "stage:start", stage: "branches", title: "STAGE B: Dendritic Branch Network" });
+  emitLog(ctx, "Branches", `Activating ${budget.branches.length} specialized branches...`, "info");
 
   const contextPack = `
 === SYMBOLIC STRUCTURE ===
@@ -204,25 +232,27 @@ ${prompt}
 `;
 
   const branchPromises = budget.branches.map(async (branchName) => {
-    const config = branchConfigs[branchName];
-    if (!config) return null;
+    const definition = getBranch(branchName);
+    if (!definition) return null;
 
-    log(branchName.toUpperCase(), "Processing...", colors.yellow);
+    ctx.emit({ type: "branch:start", branch: branchName, model: resolveBranchModel(branchName, ctx) });
     
-    const response = await callModel(config.model, config.systemPrompt, contextPack, 800);
-
+    const { output: parsed, response, error } = await sampleBranch(
+      branchName, branchSystemPrompt(definition, ctx), contextPack, budget.samples, ctx, "branches", budget.toolCalls
+    );
     let output: BranchOutput;
-    const parsed = parseJsonFromResponse(response);
     
+    if (error) {
+      output = failedBranchOutput(branchName, error);
+      if (error.kind === "deadline" || timeLeft(ctx, "branches") <= 0) {
+        ctx.degradations.push(`${branchName} branch dropped at the deadline`);
+      }
+      ctx.emit({ type: "branch:done", branch: branchName, output });
+      return output;
+    }
+
     if (parsed) {
-      output = {
-        branchName,
-        hypotheses: parsed.hypotheses || [],
-        artifacts: parsed.artifacts || [],
-        notes: parsed.notes || "",
-        contradictions: parsed.contradictions || [],
-        confidence: parsed.confidence || 0.5
-      };
+      output = parsed;
     } else {
       output = {
         branchName,
@@ -248,24 +278,192 @@ ${prompt}
         type: "hypothesis"
       });
     });
+    logToolCalls(output, scratchpad);
 
-    log(branchName.toUpperCase(), `Done (confidence: ${output.confidence.toFixed(2)})`, colors.green);
+    ctx.emit({ type: "branch:done", branch: branchName, output });
     return output;
   });
 
   const results = await Promise.all(branchPromises);
   const branchOutputs = results.filter((r): r is BranchOutput => r !== null);
 
-  if (debug) {
-    console.log(`\n${colors.dim}=== BRANCH OUTPUTS ===${colors.reset}`);
-    branchOutputs.forEach(b => {
-      console.log(`${colors.cyan}[${b.branchName}]${colors.reset} Confidence: ${b.confidence}, Hypotheses: ${b.hypotheses.length}`);
-    });
+  if (ctx.debug) {
+    ctx.emit({ type: "debug", title: "BRANCH OUTPUTS", lines: branchOutputs.map(b =>
+      `[${b.branchName}] Confidence: ${b.confidence}, Hypotheses: ${b.hypotheses.length}${b.agreement !== undefined ? `, Agreement: ${b.agreement.toFixed(2)} over ${b.samples} samples` : ""}`
+    ) });
   }
 
-  log("Branches", "Running micro-reflection on shared scratchpad...", colors.cyan);
-  
-  return branchOutputs;
+  return reflectOnScratchpad(prompt, branchOutputs, scratchpad, budget, ctx);
+}
+
+// Tool calls are the branch's evidence: the other branches and the ledger read them as artifacts
+function logToolCalls(output: BranchOutput, scratchpad: Scratchpad): void {
+  (output.toolCalls || []).forEach(call => scratchpad.entries.push({
+    branch: output.branchName,
+    timestamp: Date.now(),
+    content: `[tool] ${formatToolCall(call)}`,
+    type: "artifact"
+  }));
+}
+
+const MAX_ARTIFACT_CHARS = 1500;
+
+function formatPeers(branch: BranchOutput, branchOutputs: BranchOutput[], scratchpad: Scratchpad): string {
+  const peers = branchOutputs.filter(b => b.branchName !== branch.branchName && !b.failed).map(b => `
+[${b.branchName.toUpperCase()}] (confidence: ${b.confidence.toFixed(2)})
+Hypotheses: ${b.hypotheses.join("; ") || "None"}
+Contradictions: ${b.contradictions.join("; ") || "None"}`).join("\n");
+  const artifacts = Array.from(scratchpad.sharedArtifacts.entries())
+    .map(([name, content]) => `--- ${name} ---\n${content.slice(0, MAX_ARTIFACT_CHARS)}`).join("\n");
+
+  return `
+=== YOUR CURRENT OUTPUT ===
+Hypotheses: ${branch.hypotheses.join("; ") || "None"}
+Contradictions: ${branch.contradictions.join("; ") || "None"}
+Confidence: ${branch.confidence.toFixed(2)}
+
+=== OTHER BRANCHES (shared scratchpad) ===
+${peers}
+${artifacts ? `
+=== SHARED ARTIFACTS ===
+${artifacts}
+` : ""}`;
+}
+
+async function reflectBranch(
+  prompt: string,
+  branch: BranchOutput,
+  branchOutputs: BranchOutput[],
+  scratchpad: Scratchpad,
+  ctx: RunContext
+): Promise<{ output: BranchOutput; delta: ReflectionDelta }> {
+  const definition = getBranch(branch.branchName);
+  const formatInstruction = definition?.parseOutput
+    ? "Answer in the same output format as before."
+    : `${BRANCH_OUTPUT_FORMAT.replace(/ }$/, `, "shared_artifacts": { "name": "content" } }`)}`;
+  const userPrompt = `${formatPeers(branch, branchOutputs, scratchpad)}
+=== ORIGINAL QUERY ===
+${prompt}
+
+Revise your output if the other branches expose a mistake, a gap or a contradiction in yours; keep it if they do not.
+Publish named artifacts (tables, derivations, code) that other branches can build on in "shared_artifacts".
+${formatInstruction}`;
+  const systemPrompt = `${definition ? branchSystemPrompt(definition, ctx) : `You are the ${branch.branchName} reasoning branch.`}
+
+This is a reflection round: you can see what the other branches concluded.`;
+
+  const unchanged: ReflectionDelta = {
+    branch: branch.branchName,
+    revised: false,
+    addedHypotheses: [],
+    droppedHypotheses: [],
+    confidenceBefore: branch.confidence,
+    confidenceAfter: branch.confidence,
+    publishedArtifacts: []
+  };
+
+  const { output: revised, response, error } = await callBranch(branch.branchName, systemPrompt, userPrompt, ctx, "reflection");
+  if (error || !revised) {
+    return { output: branch, delta: { ...unchanged, error: error?.message || "unparseable reflection output" } };
+  }
+
+  const { value: shared } = validateOutput(parseJsonFromResponse(response), SHARED_ARTIFACTS_SCHEMA);
+  // Re-publishing an unchanged artifact is not news
+  const published = Object.entries(shared?.shared_artifacts || {})
+    .filter(([name, content]) => name.trim() && content.trim() && scratchpad.sharedArtifacts.get(name) !== content);
+  published.forEach(([name, content]) => {
+    scratchpad.sharedArtifacts.set(name, content);
+    scratchpad.entries.push({ branch: branch.branchName, timestamp: Date.now(), content: `${name}: ${content.slice(0, 200)}`, type: "artifact" });
+  });
+
+  const output: BranchOutput = {
+    ...revised,
+    artifacts: revised.artifacts.length > 0 ? revised.artifacts : branch.artifacts,
+    notes: revised.notes || branch.notes,
+    samples: branch.samples,
+    agreement: branch.agreement,
+    citations: branch.citations && citedPassages(revised, branch.citations),
+    toolCalls: branch.toolCalls
+  };
+  const added = output.hypotheses.filter(h => !branch.hypotheses.includes(h));
+  const dropped = branch.hypotheses.filter(h => !output.hypotheses.includes(h));
+  added.forEach(h => scratchpad.entries.push({ branch: branch.branchName, timestamp: Date.now(), content: h, type: "hypothesis" }));
+  output.contradictions.filter(c => !branch.contradictions.includes(c))
+    .forEach(c => scratchpad.entries.push({ branch: branch.branchName, timestamp: Date.now(), content: c, type: "contradiction" }));
+
+  return {
+    output,
+    delta: {
+      ...unchanged,
+      revised: added.length > 0 || dropped.length > 0 || Math.abs(output.confidence - branch.confidence) >= 0.05,
+      addedHypotheses: added,
+      droppedHypotheses: dropped,
+      confidenceAfter: output.confidence,
+      publishedArtifacts: published.map(([name]) => name)
+    }
+  };
+}
+
+/**
+ * Micro-reflection: each working branch sees the others' hypotheses, contradictions and
+ * shared artifacts and may revise its output. Rounds run in parallel across branches and
+ * stop early once a round changes nothing; every round's deltas go into the scratchpad.
+ */
+async function reflectOnScratchpad(
+  prompt: string,
+  branchOutputs: BranchOutput[],
+  scratchpad: Scratchpad,
+  budget: ReasoningBudget,
+  ctx: RunContext
+): Promise<BranchOutput[]> {
+  let outputs = branchOutputs;
+
+  for (let round = 1; round <= budget.reflectionRounds; round++) {
+    const working = outputs.filter(b => !b.failed);
+    if (working.length < 2) break;
+
+    if (timeLeft(ctx, "reflection") <= 0) {
+      emitLog(ctx, "Deadline", `Skipping reflection round ${round}: the branch deadline has passed`, "warning");
+      ctx.degradations.push(`reflection rounds ${round}-${budget.reflectionRounds} skipped at the deadline`);
+      break;
+    }
+
+    if (budget.maxCost !== undefined) {
+      const roundCost = working.reduce((sum, b) => sum + estimateCost(
+        resolveBranchModel(b.branchName, ctx),
+        estimateTokens(prompt + formatPeers(b, outputs, scratchpad)) + 400,
+        ctx.config.branches[b.branchName]?.maxTokens ?? ctx.config.maxTokens.branch,
+        ctx.config
+      ), 0);
+      if (roundCost > budget.maxCost - runCost(ctx)) {
+        emitLog(ctx, "Budget", `Reflection round ${round} would cost up to ${formatCost(roundCost)}, skipping`, "warning");
+        break;
+      }
+    }
+
+    emitLog(ctx, "Reflection", `Round ${round}/${budget.reflectionRounds}: ${working.length} branches reading the shared scratchpad...`, "progress");
+    const start = Date.now();
+    const snapshot = outputs;
+    const results = await Promise.all(snapshot.map(b => b.failed
+      ? Promise.resolve(null)
+      : reflectBranch(prompt, b, snapshot, scratchpad, ctx)));
+
+    outputs = snapshot.map((b, i) => results[i]?.output || b);
+    const reflection = {
+      round,
+      deltas: results.filter((r): r is NonNullable<typeof r> => r !== null).map(r => r.delta),
+      durationMs: Date.now() - start
+    };
+    scratchpad.reflections.push(reflection);
+    ctx.emit({ type: "reflection:round", round: reflection });
+
+    if (!reflection.deltas.some(d => d.revised || d.publishedArtifacts.length > 0)) {
+      emitLog(ctx, "Reflection", "No branch changed its conclusions, stopping", "success");
+      break;
+    }
+  }
+
+  return outputs;
 }
 
 export async function stageC_Verification(
@@ -273,13 +471,18 @@ export async function stageC_Verification(
   triPack: TriStructurePack,
   branchOutputs: BranchOutput[],
   scratchpad: Scratchpad,
-  debug: boolean
+  budget: ReasoningBudget,
+  ctx: RunContext
 ): Promise<VerificationResult> {
-  logSection("STAGE C: Verification Layer & Uncertainty Engine");
-  log("Verifier", "Attacking hypotheses and calculating uncertainty...", colors.cyan);
+  ctx.emit({ type: "stage:start", stage: "verification", title: "STAGE C: Verification Layer & Uncertainty Engine" });
+  emitLog(ctx, "Verifier", "Attacking hypotheses and calculating uncertainty...", "info");
 
-  const allHypotheses = branchOutputs.flatMap(b => b.hypotheses.map(h => `[${b.branchName}] ${h}`));
+  const claims = claimNodes(branchOutputs);
   const allContradictions = branchOutputs.flatMap(b => b.contradictions);
+  const failedBranches = branchOutputs.filter(b => b.failed);
+  const execution = await executeBranchArtifacts(branchOutputs, ctx);
+  const executed = execution.filter(r => !r.skipped);
+  const mathChecks = checkMathClaims(budget.taskType, triPack, branchOutputs, ctx);
   
   const verificationContext = `
 === ORIGINAL QUERY ===
@@ -288,41 +491,60 @@ ${prompt}
 === INVARIANTS ===
 ${triPack.invariants}
 
-=== HYPOTHESES FROM BRANCHES ===
-${allHypotheses.map((h, i) => `${i + 1}. ${h}`).join("\n")}
+=== CLAIMS FROM BRANCHES ===
+${claims.map(c => `${c.id} [${c.branch}] ${c.text}`).join("\n")}
 
 === IDENTIFIED CONTRADICTIONS ===
 ${allContradictions.join("\n") || "None identified"}
-
+${failedBranches.length > 0 ? `
+=== FAILED BRANCHES (no output) ===
+${failedBranches.map(b => b.branchName).join(", ")}
+` : ""}${executed.length > 0 ? `
+=== CODE EXECUTION (sandboxed, ground truth) ===
+${executed.map(r => `[${r.branch}] ${r.language}: ${summarizeExecution(r)}${r.stdout.trim() ? `\n  stdout: ${r.stdout.trim().slice(0, 300)}` : ""}`).join("\n")}
+` : ""}${mathChecks.length > 0 ? `
+=== MATH CHECKS (computed locally, ground truth) ===
+${mathChecks.map(c => `[${c.source}] ${c.claim}: ${c.status.toUpperCase()} (${c.detail})`).join("\n")}
+` : ""}
 === SCRATCHPAD NOTES ===
 ${scratchpad.entries.slice(-10).map(e => `[${e.branch}] ${e.content.slice(0, 200)}`).join("\n")}
 `;
 
   const [counterexampleResult, consistencyResult] = await Promise.all([
     (async () => {
-      log("Counterexamples", "Generating counterexamples...", colors.yellow);
-      return await callModel(
-        MODELS.cheap,
-        `You are a Counterexample Generator. For each hypothesis, try to find a counterexample that disproves it.
-Output JSON: { "counterexamples": ["counterexample1", ...], "failed_hypotheses": [1, 3, ...] }`,
+      emitLog(ctx, "Counterexamples", "Generating counterexamples...", "progress");
+      return await orNull(ctx, "Counterexamples", callModelJson(
+        COUNTEREXAMPLE_SCHEMA,
+        "Counterexamples",
+        ctx.config.models.cheap,
+        `You are a Counterexample Generator. For each claim, try to find a counterexample that disproves it.
+Start each counterexample with the id of the claim it disproves, e.g. "C3: ...", and list the numbers of the disproved claims (3 for C3).
+Output JSON: { "counterexamples": ["C3: counterexample", ...], "failed_hypotheses": [3, ...] }`,
         verificationContext,
-        600
-      );
+        ctx.config.maxTokens.verification,
+        ctx,
+        { fallbacks: ctx.config.fallbacks.cheap, stage: "verification" }
+      ));
     })(),
 
     (async () => {
-      log("Consistency", "Scoring consistency and coverage...", colors.yellow);
-      return await callModel(
-        MODELS.cheap,
-        `You are a Consistency Scorer. Evaluate the hypotheses:
+      emitLog(ctx, "Consistency", "Scoring consistency and coverage...", "progress");
+      return await orNull(ctx, "Consistency", callModelJson(
+        CONSISTENCY_SCHEMA,
+        "Consistency",
+        ctx.config.models.cheap,
+        `You are a Consistency Scorer. Evaluate the claims:
 - Check for internal contradictions
 - Score coverage (are all aspects addressed?)
 - Identify proven invariants
+- Link claims from different branches that support or contradict each other ("C1 supports C4", "C2 attacks C5")
 - Calculate overall uncertainty (0.0 = certain, 1.0 = highly uncertain)
-Output JSON: { "branch_scores": {"logic": 0.8, "code": 0.6, ...}, "proven_invariants": [...], "weak_points": [...], "uncertainty": 0.5 }`,
+Output JSON: { "branch_scores": {"logic": 0.8, "code": 0.6, ...}, "proven_invariants": [...], "weak_points": [...], "claim_links": [...], "uncertainty": 0.5 }`,
         verificationContext,
-        600
-      );
+        ctx.config.maxTokens.verification,
+        ctx,
+        { fallbacks: ctx.config.fallbacks.cheap, stage: "verification" }
+      ));
     })()
   ]);
 
@@ -330,27 +552,52 @@ Output JSON: { "branch_scores": {"logic": 0.8, "code": 0.6, ...}, "proven_invari
   let branchScores = new Map<string, number>();
   let provenInvariants: string[] = [];
   let weakPoints: string[] = [];
-  let uncertaintyScore = 0.5;
 
-  const ceParsed = parseJsonFromResponse(counterexampleResult);
+  const ceParsed = counterexampleResult?.value;
   if (ceParsed) {
-    counterexamples = ceParsed.counterexamples || [];
+    counterexamples = ceParsed.counterexamples;
   }
 
-  const csParsed = parseJsonFromResponse(consistencyResult);
+  const graph = buildEvidenceGraph(branchOutputs, {
+    counterexamples: ceParsed?.counterexamples ?? [],
+    failedClaims: ceParsed?.failed_hypotheses ?? [],
+    links: consistencyResult?.value?.claim_links ?? [],
+    mathChecks
+  });
+
+  const csParsed = consistencyResult?.value;
   if (csParsed) {
-    if (csParsed.branch_scores) {
-      Object.entries(csParsed.branch_scores).forEach(([k, v]) => {
-        branchScores.set(k, v as number);
-      });
-    }
-    provenInvariants = csParsed.proven_invariants || [];
-    weakPoints = csParsed.weak_points || [];
-    uncertaintyScore = csParsed.uncertainty || 0.5;
+    Object.entries(csParsed.branch_scores).forEach(([k, v]) => {
+      branchScores.set(k, v);
+    });
+    provenInvariants = csParsed.proven_invariants;
+    weakPoints = csParsed.weak_points;
   }
 
-  const avgConfidence = branchOutputs.reduce((sum, b) => sum + b.confidence, 0) / branchOutputs.length;
-  uncertaintyScore = (uncertaintyScore + (1 - avgConfidence)) / 2;
+  // Failed branches are weak points in their own right, so recurrence retries them
+  failedBranches.forEach(b => weakPoints.push(`${b.branchName} branch failed: ${b.error}`));
+
+  // Code that does not run is a fact, whatever the scorer thought of it
+  executed.filter(r => !r.passed).forEach(r => {
+    weakPoints.push(`${r.branch} branch code failed (${summarizeExecution(r)})`);
+    branchScores.set(r.branch, Math.min(branchScores.get(r.branch) ?? 1, ctx.config.thresholds.minBranchScore / 2));
+  });
+
+  mathChecks.forEach(c => {
+    if (c.status === "verified") {
+      provenInvariants.push(`${c.claim} (checked: ${c.method})`);
+      return;
+    }
+    counterexamples.push(`${c.claim} is false: ${c.detail}`);
+    if (c.source === "formalizer") return;
+    weakPoints.push(`${c.source} branch made a false claim: ${c.claim}`);
+    branchScores.set(c.source, Math.min(branchScores.get(c.source) ?? 1, ctx.config.thresholds.minBranchScore / 2));
+  });
+
+  const { score: uncertaintyScore, breakdown } = measureUncertainty(
+    { verifier: csParsed?.uncertainty ?? null, branchOutputs, graph, execution, mathChecks },
+    ctx.config.uncertainty
+  );
 
   const result: VerificationResult = {
     branchScores,
@@ -358,22 +605,61 @@ Output JSON: { "branch_scores": {"logic": 0.8, "code": 0.6, ...}, "proven_invari
     contradictions: allContradictions,
     provenInvariants,
     uncertaintyScore,
-    weakPoints
+    weakPoints,
+    execution,
+    mathChecks,
+    graph,
+    uncertainty: breakdown
   };
 
-  if (debug) {
-    console.log(`\n${colors.dim}=== VERIFICATION RESULT ===${colors.reset}`);
-    console.log(`Uncertainty: ${uncertaintyScore.toFixed(3)}`);
-    console.log(`Counterexamples: ${counterexamples.length}`);
-    console.log(`Weak points: ${weakPoints.join(", ") || "None"}`);
+  if (ctx.debug) {
+    ctx.emit({ type: "debug", title: "VERIFICATION RESULT", lines: [
+      `Uncertainty: ${uncertaintyScore.toFixed(3)} (${formatUncertaintySignals(breakdown)})`,
+      `Counterexamples: ${counterexamples.length}`,
+      `Weak points: ${weakPoints.join(", ") || "None"}`,
+      `Code executions: ${executed.filter(r => r.passed).length}/${executed.length} passed`,
+      `Math claims: ${mathChecks.filter(c => c.status === "verified").length}/${mathChecks.length} verified`,
+      `Evidence graph: ${summarizeGraph(graph)}`
+    ] });
   }
 
-  log("Verifier", `Uncertainty: ${uncertaintyScore.toFixed(3)} | Counterexamples: ${counterexamples.length} | Weak points: ${weakPoints.length}`, 
-    uncertaintyScore > 0.6 ? colors.red : uncertaintyScore > 0.4 ? colors.yellow : colors.green);
+  ctx.emit({ type: "verification:scored", verification: result });
 
   return result;
 }
 
+// Worst-case price of one recurrence pass: controller, weak-branch re-runs, the second
+// verification round, plus room for synthesis with the current chief afterwards
+function estimateRecurrenceCost(
+  prompt: string,
+  triPack: TriStructurePack,
+  weakBranches: BranchOutput[],
+  budget: ReasoningBudget,
+  ctx: RunContext
+): number {
+  const { models, maxTokens, tiers } = ctx.config;
+  const promptTokens = estimateTokens(prompt);
+  let cost = estimateCost(models.cheap, 300, maxTokens.controller, ctx.config);
+
+  weakBranches.forEach(b => {
+    const definition = getBranch(b.branchName);
+    const systemPrompt = definition ? branchSystemPrompt(definition, ctx) : "";
+    cost += budget.samples * estimateCost(
+      resolveBranchModel(b.branchName, ctx),
+      estimateTokens(systemPrompt + b.notes) + promptTokens + 200,
+      ctx.config.branches[b.branchName]?.maxTokens ?? maxTokens.branch,
+      ctx.config
+    );
+  });
+
+  const verificationPrompt = promptTokens + estimateTokens(triPack.invariants) + 1000;
+  cost += 2 * estimateCost(models.cheap, verificationPrompt, maxTokens.verification, ctx.config);
+
+  const synthesisMaxTokens = Object.values(tiers).find(t => t.chiefModel === budget.chiefModel)?.synthesisMaxTokens ?? 4000;
+  cost += estimateCost(budget.chiefModel, promptTokens + 2000, synthesisMaxTokens, ctx.config);
+  return cost;
+}
+
 export async function stageD_AdaptiveRecurrence(
   prompt: string,
   triPack: TriStructurePack,
@@ -382,37 +668,59 @@ export async function stageD_AdaptiveRecurrence(
   verification: VerificationResult,
   budget: ReasoningBudget,
   recurrenceCount: number,
-  debug: boolean
+  ctx: RunContext
 ): Promise<{ shouldRecur: boolean; updatedBranches: BranchOutput[] }> {
-  logSection("STAGE D: Adaptive Recurrence Pass");
+  ctx.emit({ type: "stage:start", stage: "recurrence", title: "STAGE D: Adaptive Recurrence Pass" });
 
-  const UNCERTAINTY_THRESHOLD = 0.55;
-  const MIN_BRANCH_SCORE = 0.5;
+  const UNCERTAINTY_THRESHOLD = ctx.config.thresholds.uncertainty;
+  const MIN_BRANCH_SCORE = ctx.config.thresholds.minBranchScore;
 
   if (verification.uncertaintyScore < UNCERTAINTY_THRESHOLD && 
       verification.weakPoints.length === 0) {
-    log("Recurrence", "Uncertainty below threshold, skipping recurrence (fast path)", colors.green);
+    emitLog(ctx, "Recurrence", "Uncertainty below threshold, skipping recurrence (fast path)", "success");
     return { shouldRecur: false, updatedBranches: branchOutputs };
   }
 
   if (recurrenceCount >= budget.allowedDepth) {
-    log("Recurrence", `Max depth reached (${recurrenceCount}/${budget.allowedDepth}), proceeding to synthesis`, colors.yellow);
+    emitLog(ctx, "Recurrence", `Max depth reached (${recurrenceCount}/${budget.allowedDepth}), proceeding to synthesis`, "warning");
+    return { shouldRecur: false, updatedBranches: branchOutputs };
+  }
+
+  // A pass re-runs branches and then re-verifies; assume the re-runs take about as long as verification
+  const left = timeLeft(ctx, "recurrence");
+  if (left < ctx.config.deadline.verificationReserveMs) {
+    emitLog(ctx, "Deadline", `${Math.max(0, Math.round(left / 1000))}s left before the deadline reserve, skipping recurrence`, "warning");
+    ctx.degradations.push(`recurrence pass ${recurrenceCount + 1} skipped at the deadline`);
     return { shouldRecur: false, updatedBranches: branchOutputs };
   }
 
-  log("Recurrence", `Pass ${recurrenceCount + 1}/${budget.allowedDepth} - Targeting weak branches...`, colors.cyan);
+  emitLog(ctx, "Recurrence", `Pass ${recurrenceCount + 1}/${budget.allowedDepth} - Targeting weak branches...`, "info");
 
   const weakBranches = branchOutputs.filter(b => {
-    const score = verification.branchScores.get(b.branchName) || b.confidence;
+    const score = verification.branchScores.get(b.branchName) ?? b.confidence;
     return score < MIN_BRANCH_SCORE || verification.weakPoints.some(wp => wp.includes(b.branchName));
   });
 
   if (weakBranches.length === 0) {
-    log("Recurrence", "No weak branches identified, proceeding to synthesis", colors.green);
+    emitLog(ctx, "Recurrence", "No weak branches identified, proceeding to synthesis", "success");
     return { shouldRecur: false, updatedBranches: branchOutputs };
   }
 
-  log("Recurrence", `Re-running ${weakBranches.length} weak branches: ${weakBranches.map(b => b.branchName).join(", ")}`, colors.yellow);
+  if (budget.maxCost !== undefined) {
+    const remaining = budget.maxCost - runCost(ctx);
+    const projected = estimateRecurrenceCost(prompt, triPack, weakBranches, budget, ctx);
+    if (projected > remaining) {
+      emitLog(ctx, "Budget", `Recurrence pass would cost up to ${formatCost(projected)} with ${formatCost(Math.max(remaining, 0))} left, skipping`, "warning");
+      return { shouldRecur: false, updatedBranches: branchOutputs };
+    }
+  }
+
+  ctx.emit({
+    type: "recurrence:pass",
+    pass: recurrenceCount + 1,
+    maxDepth: budget.allowedDepth,
+    branches: weakBranches.map(b => b.branchName)
+  });
 
   const instructionPrompt = `Based on these issues, generate specific improvement instructions for each weak branch:
 
@@ -422,15 +730,11 @@ Branches to improve: ${weakBranches.map(b => b.branchName).join(", ")}
 
 Output JSON: { "instructions": { "branchName": "specific instruction", ... } }`;
 
-  const instructionResult = await callModel(MODELS.cheap, 
+  const instructionResult = await orNull(ctx, "Controller", callModelJson(CONTROLLER_SCHEMA, "Controller", ctx.config.models.cheap, 
     "You are a Reasoning Controller. Generate specific, targeted instructions for branches that need improvement.",
-    instructionPrompt, 400);
+    instructionPrompt, ctx.config.maxTokens.controller, ctx, { fallbacks: ctx.config.fallbacks.cheap, stage: "recurrence" }));
 
-  let instructions: Record<string, string> = {};
-  const parsed = parseJsonFromResponse(instructionResult);
-  if (parsed) {
-    instructions = parsed.instructions || {};
-  }
+  const instructions: Record<string, string> = instructionResult?.value?.instructions ?? {};
 
   const updatedBranchPromises = branchOutputs.map(async (branch) => {
     if (!weakBranches.find(wb => wb.branchName === branch.branchName)) {
@@ -438,58 +742,81 @@ Output JSON: { "instructions": { "branchName": "specific instruction", ... } }`;
     }
 
     const instruction = instructions[branch.branchName] || "Re-analyze with more rigor";
-    log(branch.branchName.toUpperCase(), `Re-running: ${instruction.slice(0, 50)}...`, colors.magenta);
+    emitLog(ctx, branch.branchName.toUpperCase(), `Re-running: ${instruction.slice(0, 50)}...`, "retry");
+
+    const definition = getBranch(branch.branchName);
+    const formatInstruction = definition?.parseOutput
+      ? "Provide an improved analysis in the same output format as before."
+      : `Provide an improved analysis. ${BRANCH_OUTPUT_FORMAT}`;
 
+    const executionFailures = verification.execution.filter(r => r.branch === branch.branchName && !r.passed && !r.skipped);
+    const refutedClaims = verification.mathChecks.filter(c => c.source === branch.branchName && c.status === "refuted");
+    const disputedClaims = verification.graph.claims.filter(c => c.branch === branch.branchName && (c.status === "refuted" || c.status === "contested"));
     const refinedContext = `
 PREVIOUS ANALYSIS: ${branch.notes}
 COUNTEREXAMPLES TO ADDRESS: ${verification.counterexamples.slice(0, 2).join("; ")}
 SPECIFIC INSTRUCTION: ${instruction}
-
+${executionFailures.length > 0 ? `
+YOUR CODE FAILED WHEN EXECUTED - fix it:
+${executionFailures.map(r => `${formatExecutionTrace(r)}\n--- code ---\n${r.code.slice(0, 1500)}`).join("\n\n")}
+` : ""}${disputedClaims.length > 0 ? `
+YOUR CLAIMS THAT DID NOT SURVIVE VERIFICATION - revise or defend them:
+${disputedClaims.map(c => `- ${c.text} (${c.status})`).join("\n")}
+` : ""}${refutedClaims.length > 0 ? `
+CLAIMS REFUTED BY EXACT CALCULATION - correct them:
+${refutedClaims.map(c => `- ${c.claim}: ${c.detail}`).join("\n")}
+` : ""}
 ORIGINAL PROBLEM:
 ${prompt}
 
-Provide an improved analysis. Output JSON: { "hypotheses": [...], "artifacts": [...], "notes": "...", "contradictions": [...], "confidence": 0.0-1.0 }`;
-
-    const model = branch.branchName === "code" ? MODELS.code : MODELS.cheap;
-    const response = await callModel(model, 
-      `You are the ${branch.branchName} reasoning branch. Improve your previous analysis based on the feedback.`,
-      refinedContext, 800);
+${formatInstruction}`;
 
-    const refined = parseJsonFromResponse(response);
+    const systemPrompt = definition
+      ? `${branchSystemPrompt(definition, ctx)}\n\nThis is a recurrence pass: improve your previous analysis based on the feedback.`
+      : `You are the ${branch.branchName} reasoning branch. Improve your previous analysis based on the feedback.`;
+    const { output: refined, response, error } = await sampleBranch(
+      branch.branchName, systemPrompt, refinedContext, budget.samples, ctx, "recurrence", budget.toolCalls
+    );
+    if (error) return branch;
     if (refined) {
+      logToolCalls(refined, scratchpad);
       return {
         branchName: branch.branchName,
-        hypotheses: refined.hypotheses || branch.hypotheses,
-        artifacts: refined.artifacts || branch.artifacts,
+        hypotheses: refined.hypotheses.length > 0 ? refined.hypotheses : branch.hypotheses,
+        artifacts: refined.artifacts.length > 0 ? refined.artifacts : branch.artifacts,
         notes: refined.notes || response,
-        contradictions: refined.contradictions || [],
-        confidence: Math.min((refined.confidence || branch.confidence) + 0.1, 0.95)
+        contradictions: refined.contradictions,
+        // Whether the re-run helped is for the next verification pass to measure
+        confidence: refined.confidence,
+        samples: refined.samples,
+        agreement: refined.agreement,
+        citations: refined.citations ?? branch.citations,
+        toolCalls: refined.toolCalls ?? branch.toolCalls
       };
     }
 
-    return { ...branch, confidence: branch.confidence + 0.1 };
+    return branch;
   });
 
   const updatedBranches = await Promise.all(updatedBranchPromises);
-  log("Recurrence", `Completed pass ${recurrenceCount + 1}`, colors.green);
+  emitLog(ctx, "Recurrence", `Completed pass ${recurrenceCount + 1}`, "success");
 
   return { shouldRecur: true, updatedBranches };
 }
 
-export async function stageFinal_GrandSynthesis(
-  prompt: string,
-  state: ARDRState,
-  debug: boolean
-): Promise<string> {
-  logSection("FINAL STAGE: Grand Synthesizer");
-  
-  const tierLabel = state.tier === "max" ? "Max (Opus 4.5)" : 
-                    state.tier === "high" ? "High (Deepseek V3.2)" : "Low (Llama 3.3 70B)";
-  log("Synthesizer", `${tierLabel} synthesizing final response...`, colors.cyan);
-
-  const evidenceLedger = `
+export function buildEvidenceLedger(state: ARDRState): string {
+  const { graph } = state.verification;
+  const surviving = survivingClaims(graph);
+  const refuted = graph.claims.filter(c => c.status === "refuted");
+  const sources = collectCitations(state.branchOutputs);
+  const conversation = state.conversation ? `
+[Conversation Context]
+${state.conversation}
+` : "";
+
+  return `
 === EVIDENCE LEDGER ===
-
+${conversation}
 [Task Profile]
 Type: ${state.budget.taskType}
 Complexity: ${state.budget.complexity}
@@ -502,22 +829,91 @@ Invariants: ${state.triPack.invariants.slice(0, 300)}...
 Formal: ${state.triPack.formal.slice(0, 300)}...
 
 [Branch Findings]
-${state.branchOutputs.map(b => `
+${state.branchOutputs.map(b => b.failed ? `
+[${b.branchName.toUpperCase()}] FAILED - no findings (${b.error})
+` : `
 [${b.branchName.toUpperCase()}] (confidence: ${b.confidence.toFixed(2)})
-Hypotheses: ${b.hypotheses.slice(0, 3).join("; ")}
+Claims:
+${surviving.filter(c => c.branch === b.branchName).map(c => `- ${c.id} (${c.status}) ${c.text}`).join("\n") || "- None survived verification"}
 Key artifacts: ${b.artifacts.slice(0, 2).join("; ") || "None"}
-`).join("\n")}
-
+${b.toolCalls?.length ? `Tool results:
+${b.toolCalls.map(call => `- ${formatToolCall(call, 200)}`).join("\n")}
+` : ""}`).join("\n")}
+${refuted.length > 0 ? `
+[Refuted Claims] (do not rely on these)
+${refuted.map(c => `- ${c.id} [${c.branch}] ${c.text}`).join("\n")}
+` : ""}${sources.length > 0 ? `
+[Sources] (retrieved from the local document library)
+${sources.map(c => `[${c.id}] ${formatCitationSource(c)}: ${c.text.replace(/\s+/g, " ").slice(0, 400)}`).join("\n")}
+` : ""}
 [Verification Results]
 Uncertainty: ${state.verification.uncertaintyScore.toFixed(3)}
 Proven Invariants: ${state.verification.provenInvariants.join(", ") || "None proven"}
 Counterexamples Found: ${state.verification.counterexamples.length}
 Remaining Weak Points: ${state.verification.weakPoints.join(", ") || "None"}
 Contradictions Resolved: ${state.verification.contradictions.length}
-
-[Scratchpad Highlights]
-${state.scratchpad.entries.slice(-5).map(e => `[${e.branch}] ${e.content.slice(0, 150)}`).join("\n")}
+${state.verification.execution.length > 0 ? `
+[Code Execution]
+${state.verification.execution.map(r => `[${r.branch.toUpperCase()}] ${r.language}: ${summarizeExecution(r)}`).join("\n")}
+` : ""}${state.verification.mathChecks.length > 0 ? `
+[Math Checks]
+${state.verification.mathChecks.map(c => `[${c.source.toUpperCase()}] ${c.claim}: ${c.status} (${c.detail})`).join("\n")}
+` : ""}
+${state.degradations.length > 0 ? `[Incomplete Evidence] (the run hit its deadline; say what could not be checked)
+${state.degradations.map(d => `- ${d}`).join("\n")}
+
+` : ""}[Scratchpad Highlights]
+${state.scratchpad.entries.slice(-5).map(e => `[${e.branch}] ${e.content.slice(0, 150)}`).join("\n")}${state.scratchpad.reflections.length > 0 ? `
+
+[Reflection Rounds]
+${state.scratchpad.reflections.map(r => `Round ${r.round}: ${r.deltas.filter(d => d.revised).map(d => `${d.branch} revised (${d.confidenceBefore.toFixed(2)} -> ${d.confidenceAfter.toFixed(2)})`).join(", ") || "no revisions"}`).join("\n")}` : ""}${state.scratchpad.sharedArtifacts.size > 0 ? `
+
+[Shared Artifacts]
+${Array.from(state.scratchpad.sharedArtifacts.entries()).map(([name, content]) => `${name}: ${content.slice(0, 300)}`).join("\n")}` : ""}
 `;
+}
+
+/**
+ * Chief model for a final call under the run's cost cap: the planned chief if its
+ * worst-case call fits what is left, otherwise the first tier fallback that does (the
+ * cheapest one if none fit). The models after the chosen one stay as fallbacks.
+ */
+function chooseChiefWithinBudget(
+  chiefModel: string,
+  tier: NexusTier,
+  maxCost: number | undefined,
+  promptText: string,
+  maxTokens: number,
+  ctx: RunContext
+): { model: string; fallbacks: string[] } {
+  const chain = [chiefModel, ...ctx.config.tiers[tier].fallbackModels.filter(m => m !== chiefModel)];
+  if (maxCost === undefined) return { model: chiefModel, fallbacks: chain.slice(1) };
+
+  const remaining = maxCost - runCost(ctx);
+  const promptTokens = estimateTokens(promptText);
+  const costs = chain.map(model => estimateCost(model, promptTokens, maxTokens, ctx.config));
+  let index = costs.findIndex(cost => cost <= remaining);
+
+  if (index === -1) {
+    index = costs.indexOf(Math.min(...costs));
+    emitLog(ctx, "Budget", `No chief fits the remaining ${formatCost(Math.max(remaining, 0))}, using the cheapest (${chain[index]})`, "warning");
+  } else if (index > 0) {
+    emitLog(ctx, "Budget", `Downgrading chief ${chiefModel} -> ${chain[index]} to stay within ${formatCost(maxCost)}`, "warning");
+  }
+  return { model: chain[index], fallbacks: chain.slice(index + 1) };
+}
+
+export async function stageFinal_GrandSynthesis(
+  prompt: string,
+  state: ARDRState,
+  ctx: RunContext
+): Promise<string> {
+  ctx.emit({ type: "stage:start", stage: "synthesis", title: "FINAL STAGE: Grand Synthesizer" });
+  
+  const tierLabel = ctx.config.tiers[state.tier].label;
+  emitLog(ctx, "Synthesizer", `${tierLabel} synthesizing final response...`, "info");
+
+  const evidenceLedger = buildEvidenceLedger(state);
 
   const systemPrompt = `You are the ARDR Grand Synthesizer (${tierLabel}).
 
@@ -539,30 +935,164 @@ For writing tasks: Deliver polished, structured prose
 For reasoning tasks: Show clear logical chains
 For math tasks: Include formal proofs where appropriate
 
-Do not mention the internal pipeline or stages. Respond directly to the user's query.`;
+Do not mention the internal pipeline or stages. Respond directly to the user's query.${collectCitations(state.branchOutputs).length > 0 ? `
+
+The ledger lists [Sources] from the user's document library. Cite them inline as [S#] where a statement rests on one, and end with a "Sources" list giving each cited id with its file and lines.` : ""}`;
+
+  const maxTokens = ctx.config.tiers[state.tier].synthesisMaxTokens;
+  const userPrompt = `${evidenceLedger}\n\n=== ORIGINAL USER QUERY ===\n${prompt}`;
+  const chief = chooseChiefWithinBudget(
+    state.budget.chiefModel, state.tier, state.budget.maxCost, systemPrompt + userPrompt, maxTokens, ctx
+  );
+  state.budget.chiefModel = chief.model;
 
-  console.log(`\n${colors.bright}${colors.green}═══════════════════════════════════════════════════════════════${colors.reset}`);
-  console.log(`${colors.bright}${colors.green}                       ARDR RESPONSE                          ${colors.reset}`);
-  console.log(`${colors.bright}${colors.green}═══════════════════════════════════════════════════════════════${colors.reset}\n`);
+  const candidateModels = planCandidates(state, chief.model, systemPrompt + userPrompt, maxTokens, ctx);
+  if (candidateModels.length > 1) {
+    return synthesizeWithJudge(prompt, state, systemPrompt, userPrompt, evidenceLedger, candidateModels, chief, maxTokens, ctx);
+  }
 
-  const maxTokens = state.tier === "max" ? 8000 : state.tier === "high" ? 4000 : 2000;
+  ctx.emit({ type: "synthesis:start", model: chief.model });
   
   const response = await callModelStreaming(
-    state.budget.chiefModel,
+    chief.model,
     systemPrompt,
-    `${evidenceLedger}\n\n=== ORIGINAL USER QUERY ===\n${prompt}`,
-    maxTokens
+    userPrompt,
+    maxTokens,
+    ctx,
+    { fallbacks: chief.fallbacks, stage: "synthesis" }
   );
+  ctx.emit({ type: "synthesis:done", response });
 
   return response;
 }
 
-export async function handleConversation(prompt: string, tier: NexusTier): Promise<string> {
-  console.log(`\n${colors.bright}${colors.green}═══════════════════════════════════════════════════════════════${colors.reset}`);
-  console.log(`${colors.bright}${colors.green}                       ARDR RESPONSE                          ${colors.reset}`);
-  console.log(`${colors.bright}${colors.green}═══════════════════════════════════════════════════════════════${colors.reset}\n`);
+/**
+ * Models that draft the candidate answers, one per candidate: the tier's candidate models
+ * in turn, or the chief. Fewer candidates are planned when the drafts plus the judge and
+ * a merge would break the cost cap; a single one means plain synthesis.
+ */
+function planCandidates(state: ARDRState, chiefModel: string, promptText: string, maxTokens: number, ctx: RunContext): string[] {
+  const { synthesisCandidates, candidateModels } = ctx.config.tiers[state.tier];
+  const pool = candidateModels.length > 0 ? candidateModels : [chiefModel];
+  let models = Array.from({ length: synthesisCandidates }, (_, i) => pool[i % pool.length]);
+  if (models.length < 2 || state.budget.maxCost === undefined) return models;
+
+  const promptTokens = estimateTokens(promptText);
+  const remaining = state.budget.maxCost - runCost(ctx);
+  const projected = (drafts: string[]) =>
+    drafts.reduce((sum, model) => sum + estimateCost(model, promptTokens, maxTokens, ctx.config), 0)
+    // The judge reads every draft, and a merge writes one more answer
+    + estimateCost(chiefModel, promptTokens + drafts.length * maxTokens, ctx.config.maxTokens.verification, ctx.config)
+    + estimateCost(chiefModel, promptTokens + drafts.length * maxTokens, maxTokens, ctx.config);
+  while (models.length > 1 && projected(models) > remaining) models = models.slice(0, -1);
+
+  if (models.length < synthesisCandidates) {
+    emitLog(ctx, "Budget", `Drafting ${models.length} of ${synthesisCandidates} candidate answers to stay within ${formatCost(state.budget.maxCost)}`, "warning");
+  }
+  return models;
+}
+
+// An answer that is already complete still reaches stream consumers as tokens, line by line
+function emitAsTokens(text: string, ctx: RunContext): void {
+  (text.match(/[^\n]*\n|[^\n]+$/g) || []).forEach(token => ctx.emit({ type: "synthesis:token", token }));
+}
+
+/**
+ * Answer-level self-consistency: several candidate syntheses are drafted in parallel, a
+ * judge checks them against the evidence ledger, and the winner is emitted, or a merge of
+ * the candidates is streamed. Why the other candidates lost is kept in `state.judgement`.
+ */
+async function synthesizeWithJudge(
+  prompt: string,
+  state: ARDRState,
+  systemPrompt: string,
+  userPrompt: string,
+  evidenceLedger: string,
+  candidateModels: string[],
+  chief: { model: string; fallbacks: string[] },
+  maxTokens: number,
+  ctx: RunContext
+): Promise<string> {
+  emitLog(ctx, "Synthesizer", `Drafting ${candidateModels.length} candidate answers...`, "progress");
+
+  const failures: ModelCallError[] = [];
+  const drafts = await Promise.all(candidateModels.map(async (model, i): Promise<SynthesisCandidate> => {
+    let candidate: SynthesisCandidate;
+    try {
+      const response = await callModel(model, systemPrompt, userPrompt, maxTokens, ctx, {
+        fallbacks: model === chief.model ? chief.fallbacks : [chief.model],
+        stage: "synthesis",
+        branch: `candidate-${i + 1}`
+      });
+      candidate = { index: i + 1, model, response };
+    } catch (error) {
+      if (!(error instanceof ModelCallError)) throw error;
+      failures.push(error);
+      candidate = { index: i + 1, model, response: "", error: error.message };
+    }
+    ctx.emit({ type: "synthesis:candidate", candidate });
+    return candidate;
+  }));
+
+  // As with a single synthesis, the run fails only when no answer could be written at all
+  const usable = drafts.filter(c => !c.error);
+  if (usable.length === 0) throw failures[0];
+
+  const judgement: SynthesisJudgement = { candidates: drafts, verdict: "fallback", winner: usable[0].index, rejections: [], notes: "" };
+  if (usable.length > 1) {
+    emitLog(ctx, "Judge", `Checking ${usable.length} candidates against the evidence ledger...`, "progress");
+    const verdict = await orNull(ctx, "Judge", callModelJson(
+      SYNTHESIS_JUDGE_SCHEMA,
+      "Judge",
+      chief.model,
+      `You are the ARDR Synthesis Judge. Several candidate answers were written from the same evidence ledger.
+Check each candidate against the ledger: reject answers that rely on refuted claims, contradict proven invariants or verified calculations, ignore counterexamples, or miss part of the query.
+Pick the best candidate, or choose "merge" when no single candidate is right but their correct parts together answer the query.
+Give a one-sentence reason for every candidate you did not pick.
+Output JSON: { "verdict": "pick" | "merge", "winner": 1, "rejections": { "2": "reason" }, "notes": "what a merge must keep or fix" }`,
+      `${evidenceLedger}\n\n=== ORIGINAL USER QUERY ===\n${prompt}\n\n${usable.map(c => `=== CANDIDATE ${c.index} ===\n${c.response}`).join("\n\n")}`,
+      ctx.config.maxTokens.verification,
+      ctx,
+      { fallbacks: chief.fallbacks, stage: "judge" }
+    ));
+
+    const value = verdict?.value;
+    if (value) {
+      const winner = usable.some(c => c.index === value.winner) ? value.winner : usable[0].index;
+      judgement.verdict = value.verdict === "merge" ? "merge" : "pick";
+      judgement.winner = judgement.verdict === "merge" ? null : winner;
+      judgement.notes = value.notes;
+      judgement.rejections = Object.entries(value.rejections)
+        .map(([candidate, reason]) => ({ candidate: parseInt(candidate.replace(/\D/g, ""), 10), reason }))
+        .filter(r => usable.some(c => c.index === r.candidate) && r.candidate !== judgement.winner);
+    }
+  }
+  drafts.filter(c => c.error).forEach(c => judgement.rejections.push({ candidate: c.index, reason: `failed: ${c.error}` }));
+  state.judgement = judgement;
+  ctx.emit({ type: "synthesis:judged", judgement });
+
+  if (judgement.verdict === "merge") {
+    ctx.emit({ type: "synthesis:start", model: chief.model });
+    const merged = await callModelStreaming(
+      chief.model,
+      systemPrompt,
+      `${userPrompt}\n\n${usable.map(c => `=== CANDIDATE ${c.index} ===\n${c.response}`).join("\n\n")}\n\n=== JUDGE NOTES ===\n${judgement.notes || "Combine the correct parts of the candidates."}\n\nWrite the final answer by merging the candidates as the judge describes. Do not mention the candidates.`,
+      maxTokens,
+      ctx,
+      { fallbacks: chief.fallbacks, stage: "synthesis" }
+    );
+    ctx.emit({ type: "synthesis:done", response: merged });
+    return merged;
+  }
+
+  const chosen = usable.find(c => c.index === judgement.winner) as SynthesisCandidate;
+  ctx.emit({ type: "synthesis:start", model: chosen.model });
+  emitAsTokens(chosen.response, ctx);
+  ctx.emit({ type: "synthesis:done", response: chosen.response });
+  return chosen.response;
+}
 
-  const chiefModel = tier === "max" ? MODELS.chiefMax : tier === "high" ? MODELS.chiefHigh : MODELS.chiefLow;
+export async function handleConversation(prompt: string, tier: NexusTier, ctx: RunContext): Promise<string> {
   
   const systemPrompt = `You are ARDR, a friendly and capable AI assistant. You can help with:
 - Casual conversation and chat
@@ -573,6 +1103,16 @@ export async function handleConversation(prompt: string, tier: NexusTier): Promi
 
 Be natural, warm, and helpful. Match the user's tone - if they're casual, be casual. If they need help with something, offer to assist.`;
 
-  const response = await callModelStreaming(chiefModel, systemPrompt, prompt, 1500);
+  const maxTokens = ctx.config.maxTokens.conversation;
+  const chief = chooseChiefWithinBudget(
+    ctx.config.tiers[tier].chiefModel, tier, ctx.config.maxRunCost, systemPrompt + prompt, maxTokens, ctx
+  );
+
+  ctx.emit({ type: "synthesis:start", model: chief.model });
+  const response = await callModelStreaming(chief.model, systemPrompt, prompt, maxTokens, ctx, {
+    fallbacks: chief.fallbacks,
+    stage: "synthesis"
+  });
+  ctx.emit({ type: "synthesis:done", response });
   return response;
 }
@@ -1,17 +1,27 @@
 import OpenAI from "openai";
-import { colors } from "./ARDR_models";
+import { colors, DEFAULT_PIPELINE_CONFIG } from "./ARDR_models";
+import {
+  CallOptions,
+  ChatMessage,
+  ModelFailureKind,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  RunContext,
+  ToolCall,
+  ToolCallRecord,
+  ToolDefinition
+} from "./ARDR_types";
+import { createOpenRouterProvider, registerProvider, resolveProvider } from "./ARDR_providers";
+import { recordUsage } from "./ARDR_costs";
+import { runCacheKey } from "./ARDR_cache";
 
 let openaiClient: OpenAI | null = null;
 
 export function initializeOpenAI(apiKey: string): OpenAI {
-  openaiClient = new OpenAI({
-    baseURL: "https://openrouter.ai/api/v1",
-    apiKey,
-    defaultHeaders: {
-      "HTTP-Referer": "https://infiniax.replit.app",
-      "X-Title": "ARDR High"
-    }
-  });
+  const provider = createOpenRouterProvider(apiKey);
+  registerProvider(provider, { default: true });
+  openaiClient = provider.client;
   return openaiClient;
 }
 
@@ -31,69 +41,451 @@ export function logSection(title: string): void {
   console.log(`\n${colors.bgBlue}${colors.white}${colors.bright} ═══ ${title} ═══ ${colors.reset}\n`);
 }
 
+// Used when a helper is called outside a pipeline run: keep the old console behaviour
+function detachedContext(): RunContext {
+  return {
+    debug: false,
+    config: DEFAULT_PIPELINE_CONFIG,
+    emit: event => {
+      if (event.type === "error") log("ERROR", event.message, colors.red);
+      if (event.type === "synthesis:token") process.stdout.write(event.token);
+    },
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    usageRecords: [],
+    validationFailures: [],
+    degradations: []
+  };
+}
+
+/**
+ * Raised once a model call has exhausted its retries and every fallback model. Stages catch
+ * it and degrade explicitly (a failed branch, a default budget) instead of reasoning over
+ * error text.
+ */
+export class ModelCallError extends Error {
+  constructor(
+    message: string,
+    public kind: ModelFailureKind,
+    public models: string[],
+    public attempts: number,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "ModelCallError";
+  }
+}
+
+/**
+ * Raised when the caller cancels a run through its AbortSignal. Unlike ModelCallError it is
+ * never retried or degraded: it unwinds the whole run.
+ */
+export class RunCancelledError extends Error {
+  constructor(message: string = "Run cancelled") {
+    super(message);
+    this.name = "RunCancelledError";
+  }
+}
+
+export function throwIfCancelled(ctx: RunContext): void {
+  if (ctx.signal?.aborted) throw new RunCancelledError();
+}
+
+/**
+ * Epoch ms by which calls of `stage` must be done: the run deadline minus the time kept
+ * free for the stages after it (synthesis for verification; verification and synthesis
+ * for everything before). Undefined for runs without a deadline.
+ */
+export function stageDeadline(ctx: RunContext, stage: string): number | undefined {
+  if (ctx.deadline === undefined) return undefined;
+  const { synthesisReserveMs, verificationReserveMs } = ctx.config.deadline;
+  if (stage === "synthesis" || stage === "judge") return ctx.deadline;
+  if (stage === "verification") return ctx.deadline - synthesisReserveMs;
+  return ctx.deadline - synthesisReserveMs - verificationReserveMs;
+}
+
+/** Milliseconds left before `stage`'s deadline; Infinity without one. */
+export function timeLeft(ctx: RunContext, stage: string): number {
+  const deadline = stageDeadline(ctx, stage);
+  return deadline === undefined ? Infinity : deadline - Date.now();
+}
+
+class CallTimeoutError extends Error {}
+
+class DeadlineError extends Error {}
+
+const RETRYABLE: ModelFailureKind[] = ["timeout", "rate_limit", "server", "network"];
+
+function classifyFailure(error: any): { kind: ModelFailureKind; status?: number } {
+  if (error instanceof DeadlineError) return { kind: "deadline" };
+  if (error instanceof CallTimeoutError) return { kind: "timeout" };
+  const status = typeof error?.status === "number" ? error.status : undefined;
+  if (status === 429) return { kind: "rate_limit", status };
+  if (status !== undefined && status >= 500) return { kind: "server", status };
+  if (status !== undefined) return { kind: "client", status };
+  return { kind: "network" };
+}
+
+function retryDelay(error: any, attempt: number, ctx: RunContext): number {
+  const { baseDelayMs, maxDelayMs } = ctx.config.retry;
+  const retryAfter = Number(error?.headers?.["retry-after"]);
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : baseDelayMs * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4);
+  return Math.min(Math.round(delay), maxDelayMs);
+}
+
+// The provider's signal fires on the timeout and on cancellation of the run
+async function withTimeout<T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>, cancel?: AbortSignal): Promise<T> {
+  if (cancel?.aborted) throw new RunCancelledError();
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let onCancel: (() => void) | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new CallTimeoutError(`timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    onCancel = () => {
+      controller.abort();
+      reject(new RunCancelledError());
+    };
+    cancel?.addEventListener("abort", onCancel);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    if (onCancel) cancel?.removeEventListener("abort", onCancel);
+  }
+}
+
+function sleep(ms: number, cancel?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onCancel = () => {
+      clearTimeout(timer);
+      reject(new RunCancelledError());
+    };
+    const timer = setTimeout(() => {
+      cancel?.removeEventListener("abort", onCancel);
+      resolve();
+    }, ms);
+    if (cancel?.aborted) onCancel();
+    else cancel?.addEventListener("abort", onCancel);
+  });
+}
+
+// One provider call under the timeout; every attempt, failed or not, goes to the trace
+async function attemptCall(
+  request: ModelRequest,
+  ctx: RunContext,
+  options: CallOptions,
+  timeoutMs: number,
+  send: (provider: ModelProvider, request: ModelRequest) => Promise<ModelResponse>
+): Promise<ModelResponse> {
+  const startedAt = Date.now();
+  const record = (outcome: { response?: ModelResponse; error?: { message: string; status?: number } }) =>
+    ctx.trace?.recordCall({
+      model: request.model,
+      stage: options.stage || "other",
+      branch: options.branch,
+      request: { messages: request.messages, maxTokens: request.maxTokens, temperature: request.temperature },
+      ...outcome,
+      durationMs: Date.now() - startedAt
+    });
+
+  try {
+    const provider = ctx.provider || resolveProvider(request.model);
+    const response = await withTimeout(timeoutMs, signal => send(provider, { ...request, signal }), ctx.signal);
+    record({ response });
+    return response;
+  } catch (error: any) {
+    // A cancelled call has no outcome worth replaying
+    if (!(error instanceof RunCancelledError)) {
+      record({ error: { message: error.message, status: typeof error?.status === "number" ? error.status : undefined } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tries `model` and then each fallback in turn. Timeouts, 429s, 5xx and network errors are
+ * retried with exponential backoff (honouring Retry-After); other client errors move
+ * straight to the next model. `canRetry` lets streaming calls stop once tokens went out.
+ * Attempts are cut short at the stage's deadline, and nothing is retried past it.
+ */
+async function callWithPolicy(
+  request: ModelRequest,
+  ctx: RunContext,
+  options: CallOptions,
+  defaultTimeoutMs: number,
+  send: (provider: ModelProvider, request: ModelRequest) => Promise<ModelResponse>,
+  canRetry: () => boolean = () => true
+): Promise<{ response: ModelResponse; model: string }> {
+  const { model } = request;
+  const chain = [model, ...(options.fallbacks || []).filter(m => m !== model)];
+  const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+  let attempts = 0;
+  let last: { error: any; kind: ModelFailureKind; status?: number } | null = null;
+
+  for (const [index, candidate] of chain.entries()) {
+    if (index > 0) {
+      ctx.emit({ type: "log", stage: "Fallback", message: `${chain[index - 1]} failed, falling back to ${candidate}`, level: "warning" });
+    }
+    for (let attempt = 1; attempt <= ctx.config.retry.attempts; attempt++) {
+      const left = timeLeft(ctx, options.stage || "other");
+      const deadlineReached = { error: new DeadlineError(`deadline for ${options.stage || "the call"} reached`), kind: "deadline" as const };
+      if (left <= 0) {
+        last = deadlineReached;
+        break;
+      }
+      attempts++;
+      try {
+        const response = await attemptCall({ ...request, model: candidate }, ctx, options, Math.min(timeoutMs, left), send);
+        return { response, model: candidate };
+      } catch (error: any) {
+        if (error instanceof RunCancelledError) throw error;
+        // A timeout shortened to the deadline is the deadline, not a slow model
+        last = error instanceof CallTimeoutError && left < timeoutMs ? deadlineReached : { error, ...classifyFailure(error) };
+        if (!canRetry()) break;
+        if (!RETRYABLE.includes(last.kind) || attempt === ctx.config.retry.attempts) break;
+        const delay = retryDelay(error, attempt, ctx);
+        if (delay >= timeLeft(ctx, options.stage || "other")) break;
+        ctx.emit({
+          type: "log",
+          stage: "Retry",
+          message: `${candidate}: ${error.message} - retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${ctx.config.retry.attempts})`,
+          level: "retry"
+        });
+        await sleep(delay, ctx.signal);
+      }
+    }
+    if (!canRetry() || last?.kind === "deadline") break;
+  }
+
+  const message = `${chain.join(" -> ")} failed after ${attempts} attempt(s): ${last?.error?.message}`;
+  ctx.emit({ type: "error", message: `Model call failed: ${message}`, model });
+  throw new ModelCallError(message, last?.kind ?? "network", chain, attempts, last?.status);
+}
+
+// Who answers `model`, for the cache key; null when its answers are not to be cached. A
+// model without a provider is left for the call itself to fail on
+function cacheScope(model: string, ctx: RunContext): string | null {
+  let provider: ModelProvider;
+  try {
+    provider = ctx.provider || resolveProvider(model);
+  } catch {
+    return null;
+  }
+  return provider.cacheable === false ? null : `${provider.name}@${provider.baseURL ?? ""}`;
+}
+
+// One completion through the response cache; a hit is traced and costed but never sent
+async function completeCached(request: ModelRequest, ctx: RunContext, options: CallOptions): Promise<ModelResponse> {
+  const { model, messages, maxTokens, temperature } = request;
+  const text = (completion: string) => ({ prompt: messages.map(m => m.content).join(""), completion });
+
+  const scope = ctx.cache ? cacheScope(model, ctx) : null;
+  const key = scope !== null ? runCacheKey(ctx, request, scope) : null;
+  const cached = key && !ctx.bypassCache ? ctx.cache!.get(key) : null;
+  if (cached) {
+    throwIfCancelled(ctx);
+    const { response } = cached;
+    if (ctx.debug) {
+      ctx.emit({ type: "log", stage: "Cache", message: `${options.stage || "other"}${options.branch ? `/${options.branch}` : ""}: ${cached.model} served from cache`, level: "info" });
+    }
+    // Recorded so a traced run replays the same, whether or not its calls were cached
+    ctx.trace?.recordCall({
+      model,
+      stage: options.stage || "other",
+      branch: options.branch,
+      request: { messages, maxTokens, temperature },
+      response,
+      durationMs: 0,
+      cached: true
+    });
+    recordUsage(ctx, cached.model, response.usage, options, text(response.content), true);
+    return response;
+  }
+
+  const { response, model: answeredBy } = await callWithPolicy(
+    request, ctx, options, ctx.config.timeouts.call,
+    (provider, request) => provider.complete(request)
+  );
+  if (key) ctx.cache!.set(key, { model: answeredBy, response, storedAt: Date.now() });
+  recordUsage(ctx, answeredBy, response.usage, options, text(response.content));
+  return response;
+}
+
+/**
+ * Runs one tool call. Whatever goes wrong (an unknown tool, arguments that are not a JSON
+ * object, a thrown error, the timeout) becomes the result text, so the model can correct
+ * the call instead of the branch failing.
+ */
+async function runToolCall(call: ToolCall, tools: ToolDefinition[], ctx: RunContext, options: CallOptions): Promise<ToolCallRecord> {
+  const { maxResultChars, timeoutMs } = ctx.config.tools;
+  const startedAt = Date.now();
+  let result: string;
+  let failed = false;
+  try {
+    const tool = tools.find(t => t.name === call.name);
+    if (!tool) throw new Error(`unknown tool "${call.name}" (available: ${tools.map(t => t.name).join(", ")})`);
+    let args: unknown;
+    try {
+      args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      throw new Error("arguments are not valid JSON");
+    }
+    if (!args || typeof args !== "object" || Array.isArray(args)) throw new Error("arguments must be a JSON object");
+    result = String(await withTimeout(timeoutMs, async () => tool.run(args as Record<string, any>, ctx, options.branch || ""), ctx.signal));
+  } catch (error: any) {
+    if (error instanceof RunCancelledError) throw error;
+    failed = true;
+    result = `Error: ${error.message}`;
+  }
+  if (result.length > maxResultChars) {
+    result = `${result.slice(0, maxResultChars)}\n[${result.length - maxResultChars} more characters cut]`;
+  }
+
+  ctx.emit({
+    type: "log",
+    stage: (options.branch || options.stage || "tools").toUpperCase(),
+    message: `${call.name}(${call.arguments.slice(0, 80)}) ${failed ? "failed:" : "->"} ${result.split("\n")[0].slice(0, 100)}`,
+    level: failed ? "warning" : "info"
+  });
+  return { tool: call.name, arguments: call.arguments, result, failed, durationMs: Date.now() - startedAt };
+}
+
+/**
+ * The tool loop of a call: the model answers or asks for tools, the calls are run and
+ * their results sent back, for at most `tools.maxSteps` model rounds. Once `maxToolCalls`
+ * calls are spent, or on the last round, the model is told to answer; calls it still
+ * makes get a refusal as their result.
+ */
+async function callWithTools(request: ModelRequest, tools: ToolDefinition[], ctx: RunContext, options: CallOptions): Promise<string> {
+  const limit = options.maxToolCalls ?? 0;
+  const specs = tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+  const messages = [...request.messages];
+  let used = 0;
+
+  for (let step = 1; ; step++) {
+    const open = used < limit && step < ctx.config.tools.maxSteps;
+    const response = await completeCached({ ...request, messages: [...messages], tools: specs, toolChoice: open ? "auto" : "none" }, ctx, options);
+    if (!open || !response.toolCalls?.length) return response.content;
+
+    messages.push({ role: "assistant", content: response.content, toolCalls: response.toolCalls });
+    for (const call of response.toolCalls) {
+      let record: ToolCallRecord;
+      if (used < limit) {
+        used++;
+        record = await runToolCall(call, tools, ctx, options);
+      } else {
+        record = { tool: call.name, arguments: call.arguments, result: "Not run: the tool call limit is reached. Answer with what you have.", failed: true, durationMs: 0 };
+      }
+      options.onToolCall?.(record);
+      // Every call needs its result message, or the next request is rejected
+      messages.push({ role: "tool", toolCallId: call.id, content: record.result });
+    }
+  }
+}
+
+/**
+ * One model call with retries, fallbacks and the response cache. With `tools` and a
+ * `maxToolCalls` above 0 the model may call them first (see `callWithTools`); the
+ * returned text is always its final answer.
+ */
 export async function callModel(
   model: string, 
   systemPrompt: string, 
   userPrompt: string, 
-  maxTokens: number = 1500
+  maxTokens: number = 1500,
+  ctx: RunContext = detachedContext(),
+  options: CallOptions = {}
 ): Promise<string> {
-  const openai = getOpenAI();
-  try {
-    const response = await openai.chat.completions.create({
-      model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      max_tokens: maxTokens,
-      temperature: 0.7
-    });
-    return response.choices[0]?.message?.content || "";
-  } catch (error: any) {
-    log("ERROR", `Model call failed: ${error.message}`, colors.red);
-    return `[Error calling ${model}: ${error.message}]`;
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt }
+  ];
+  const temperature = options.temperature ?? ctx.config.temperature;
+  const request: ModelRequest = { model, messages, maxTokens, temperature };
+
+  if (options.tools?.length && (options.maxToolCalls ?? 0) > 0) {
+    return callWithTools(request, options.tools, ctx, options);
   }
+  return (await completeCached(request, ctx, options)).content;
 }
 
 export async function callModelStreaming(
   model: string, 
   systemPrompt: string, 
   userPrompt: string, 
-  maxTokens: number = 4000
+  maxTokens: number = 4000,
+  ctx: RunContext = detachedContext(),
+  options: CallOptions = {}
 ): Promise<string> {
-  const openai = getOpenAI();
-  try {
-    const stream = await openai.chat.completions.create({
-      model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      max_tokens: maxTokens,
-      temperature: 0.7,
-      stream: true
-    });
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt }
+  ];
+  const temperature = options.temperature ?? ctx.config.temperature;
+  // Once tokens reached listeners a retry would duplicate them, so only silent failures retry
+  let streamed = false;
+  const { response, model: answeredBy } = await callWithPolicy(
+    { model, messages, maxTokens, temperature }, ctx, options, ctx.config.timeouts.synthesis,
+    (provider, request) => provider.stream(
+      request,
+      token => {
+        streamed = true;
+        ctx.emit({ type: "synthesis:token", token });
+      }
+    ),
+    () => !streamed
+  );
+  recordUsage(ctx, answeredBy, response.usage, options, { prompt: systemPrompt + userPrompt, completion: response.content });
+  return response.content;
+}
+
+/**
+ * Finds the first complete, parseable JSON object in a model reply. Fenced ```json blocks
+ * are tried first, then every balanced {...} span, so prose containing braces before or
+ * after the payload no longer breaks parsing.
+ */
+export function parseJsonFromResponse(response: string): any | null {
+  const candidates: string[] = [];
+  const fenceRegex = /```(?:json)?\s*([\s\S]*?)```/gi;
+  let fence: RegExpExecArray | null;
+  while ((fence = fenceRegex.exec(response)) !== null) {
+    candidates.push(fence[1]);
+  }
+  candidates.push(response);
 
-    let fullResponse = "";
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content || "";
-      process.stdout.write(content);
-      fullResponse += content;
+  for (const text of candidates) {
+    for (let start = text.indexOf("{"); start !== -1; start = text.indexOf("{", start + 1)) {
+      const end = findMatchingBrace(text, start);
+      if (end === -1) continue;
+      try {
+        const parsed = JSON.parse(text.slice(start, end + 1));
+        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+      } catch {}
     }
-    console.log();
-    return fullResponse;
-  } catch (error: any) {
-    log("ERROR", `Streaming call failed: ${error.message}`, colors.red);
-    return `[Error calling ${model}: ${error.message}]`;
   }
+  return null;
 }
 
-export function parseJsonFromResponse(response: string): any | null {
-  try {
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
+function findMatchingBrace(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
     }
-  } catch {}
-  return null;
+    if (ch === '"') inString = true;
+    else if (ch === "{") depth++;
+    else if (ch === "}" && --depth === 0) return i;
+  }
+  return -1;
 }
@@ -0,0 +1,221 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AttachedFile, Attachment, AttachmentSettings, RunContext } from "./ARDR_types";
+import { callModel, ModelCallError } from "./ARDR_utils";
+import { emitLog } from "./ARDR_events";
+import { chunkDocument, listDocuments } from "./ARDR_retrieval";
+
+// Characters kept from each end of a part the condenser could not summarize
+const EXCERPT_CHARS = 1500;
+
+function isGlob(spec: string): boolean {
+  return /[*?{]/.test(spec);
+}
+
+/** `**` spans directories, `*` and `?` stay within one, `{a,b}` is either. */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const end = glob.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+        continue;
+      }
+      source += `(?:${glob.slice(i + 1, end).split(",").map(part => part.replace(/[.+^$()|[\]\\]/g, "\\$&")).join("|")})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Files a path stands for: the file itself, every file under a directory, or the files
+ * matching a glob such as `src/**\/*.ts`. Paths are resolved against `cwd`; nothing
+ * matching gives an empty list.
+ */
+export function expandAttachmentPath(spec: string, cwd: string = process.cwd()): string[] {
+  if (!isGlob(spec)) {
+    const full = path.resolve(cwd, spec);
+    if (!fs.existsSync(full)) return [];
+    return fs.statSync(full).isDirectory() ? listDocuments(full) : [full];
+  }
+
+  // Walk from the deepest directory before the first wildcard
+  const parts = spec.split(/[\\/]/);
+  const firstGlob = parts.findIndex(isGlob);
+  const base = path.resolve(cwd, parts.slice(0, firstGlob).join("/") || ".");
+  if (!fs.existsSync(base) || !fs.statSync(base).isDirectory()) return [];
+
+  const pattern = globToRegExp(parts.slice(firstGlob).join("/"));
+  return listDocuments(base).filter(file => pattern.test(path.relative(base, file).split(path.sep).join("/")));
+}
+
+/**
+ * Reads the files `specs` stand for, each at most once. Missing paths, binary files,
+ * files over `maxFileBytes` and files past `maxFiles` are reported in `warnings`, not thrown.
+ */
+export function loadAttachments(
+  specs: string[],
+  settings: AttachmentSettings,
+  cwd: string = process.cwd()
+): { attachments: Attachment[]; warnings: string[] } {
+  const attachments: Attachment[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+  let dropped = 0;
+
+  for (const spec of specs) {
+    const files = expandAttachmentPath(spec, cwd);
+    if (files.length === 0) {
+      warnings.push(`${spec} ${isGlob(spec) ? "matches no files" : "does not exist"}`);
+      continue;
+    }
+    const single = files.length === 1 && !isGlob(spec) && !fs.statSync(path.resolve(cwd, spec)).isDirectory();
+
+    for (const file of files) {
+      if (seen.has(file)) continue;
+      seen.add(file);
+      const display = single ? spec : path.relative(cwd, file) || file;
+      if (attachments.length >= settings.maxFiles) {
+        dropped++;
+        continue;
+      }
+      const size = fs.statSync(file).size;
+      if (size > settings.maxFileBytes) {
+        warnings.push(`${display} skipped: ${Math.ceil(size / 1024)} KB is over the ${Math.floor(settings.maxFileBytes / 1024)} KB limit`);
+        continue;
+      }
+      let text: string;
+      try {
+        text = fs.readFileSync(file, "utf8");
+      } catch (error: any) {
+        warnings.push(`${display} skipped: ${error.message}`);
+        continue;
+      }
+      if (text.slice(0, 1000).includes("\u0000")) {
+        warnings.push(`${display} skipped: binary file`);
+        continue;
+      }
+      attachments.push({ path: display, text });
+    }
+  }
+
+  if (dropped > 0) warnings.push(`${dropped} more file(s) not attached: the limit is ${settings.maxFiles} files`);
+  return { attachments, warnings };
+}
+
+/**
+ * Finds `@path` references in a message. Only words naming an existing file or directory,
+ * or a glob matching something, count, so e-mail addresses and handles are left alone.
+ * The returned prompt keeps each path without its `@`; `question` is the message without
+ * the references, empty when nothing was asked about the files.
+ */
+export function extractReferences(
+  text: string,
+  cwd: string = process.cwd()
+): { prompt: string; question: string; references: string[] } {
+  const references: string[] = [];
+  let question = text;
+  const prompt = text.replace(/(^|\s)@(\S+)/g, (match, lead: string, word: string) => {
+    // Sentence punctuation after a path is not part of it
+    const spec = word.replace(/[.,;:!?)\]'"]+$/, "");
+    if (!spec || expandAttachmentPath(spec, cwd).length === 0) return match;
+    if (!references.includes(spec)) references.push(spec);
+    question = question.replace(`@${word}`, "");
+    return `${lead}${word}`;
+  });
+  return { prompt: prompt.trim(), question: question.trim(), references };
+}
+
+async function summarizeAttachment(attachment: Attachment, question: string, ctx: RunContext): Promise<string> {
+  const settings = ctx.config.attachments;
+  const chunks = chunkDocument(attachment.text, settings.chunkChars, 0);
+
+  const parts = await Promise.all(chunks.map(async chunk => {
+    const header = chunks.length > 1 ? `[lines ${chunk.lines[0]}-${chunk.lines[1]}]\n` : "";
+    try {
+      const summary = await callModel(
+        ctx.config.models.condenser,
+        `You are a File Condenser. Summarize this part of an attached file for a reasoning system answering the question below:
+- Keep everything relevant to the question in detail, quoting it where exact wording matters
+- Keep identifiers, signatures, numbers, error messages and the line numbers they appear on
+- Describe the rest of the part in a sentence or two
+Keep output under ${Math.floor(settings.summaryMaxTokens * 0.8)} tokens.
+
+QUESTION: ${question}`,
+        `${attachment.path}, lines ${chunk.lines[0]}-${chunk.lines[1]}:\n\n${chunk.text}`,
+        settings.summaryMaxTokens,
+        ctx,
+        { fallbacks: ctx.config.fallbacks.condenser, stage: "attachments" }
+      );
+      return header + summary.trim();
+    } catch (error) {
+      if (!(error instanceof ModelCallError)) throw error;
+      emitLog(ctx, "Attachments", `Could not summarize ${attachment.path} lines ${chunk.lines[0]}-${chunk.lines[1]}; including an excerpt`, "warning");
+      const excerpt = chunk.text.length <= EXCERPT_CHARS * 2
+        ? chunk.text
+        : `${chunk.text.slice(0, EXCERPT_CHARS)}\n[... ${chunk.text.length - EXCERPT_CHARS * 2} characters not shown ...]\n${chunk.text.slice(-EXCERPT_CHARS)}`;
+      return `${header}(excerpt; the summary failed)\n${excerpt}`;
+    }
+  }));
+  return parts.join("\n\n");
+}
+
+/**
+ * Builds the attached-files section every stage sees. The smallest files are included
+ * verbatim while they fit in `inlineChars`; the rest are summarized part by part by the
+ * condenser model with the question in view, rather than cut off.
+ */
+export async function buildAttachmentContext(
+  attachments: Attachment[],
+  question: string,
+  ctx: RunContext
+): Promise<{ context: string; files: AttachedFile[] }> {
+  if (attachments.length === 0) return { context: "", files: [] };
+  const settings = ctx.config.attachments;
+
+  const verbatim = new Set<Attachment>();
+  let used = 0;
+  [...attachments].sort((a, b) => a.text.length - b.text.length).forEach(attachment => {
+    if (used + attachment.text.length > settings.inlineChars) return;
+    verbatim.add(attachment);
+    used += attachment.text.length;
+  });
+
+  const summarized = attachments.filter(a => !verbatim.has(a));
+  if (summarized.length > 0) {
+    emitLog(ctx, "Attachments", `Summarizing ${summarized.length} large file(s): ${summarized.map(a => a.path).join(", ")}`, "info");
+  }
+
+  const sections: string[] = [];
+  const files: AttachedFile[] = [];
+  for (const attachment of attachments) {
+    const lines = attachment.text.replace(/\r?\n$/, "").split(/\r?\n/).length;
+    const isVerbatim = verbatim.has(attachment);
+    const body = isVerbatim ? attachment.text.trimEnd() : await summarizeAttachment(attachment, question, ctx);
+    sections.push(`--- ${attachment.path} (${lines} lines${isVerbatim ? "" : ", summarized"}) ---\n${body}`);
+    files.push({ path: attachment.path, lines, chars: attachment.text.length, summarized: !isVerbatim });
+  }
+
+  emitLog(ctx, "Attachments", `${files.length} file(s) attached, ${summarized.length} summarized`, "success");
+  return { context: `=== ATTACHED FILES ===\n${sections.join("\n\n")}`, files };
+}
+
+export function withAttachments(prompt: string, context: string): string {
+  if (!context) return prompt;
+  return `${context}\n\n=== QUESTION ===\n${prompt}`;
+}
@@ -0,0 +1,215 @@
+import * as fs from "fs";
+import * as path from "path";
+import { NexusTier, ReasoningBudget } from "./ARDR_types";
+import { RunCancelledError } from "./ARDR_utils";
+import { ARDRInstance, ARDRRunResult, RunOptions } from "./ARDR_pipeline";
+import { collectCitations } from "./ARDR_retrieval";
+
+const TIERS: NexusTier[] = ["low", "high", "max"];
+
+export interface BatchPrompt {
+  id: string;
+  prompt: string;
+  /** Overrides the batch tier for this prompt. */
+  tier?: NexusTier;
+}
+
+export interface BatchRecord {
+  id: string;
+  prompt: string;
+  tier: NexusTier;
+  answer: string;
+  fastPath: boolean;
+  /** Pipeline uncertainty; null for fast-path runs and failures. */
+  uncertainty: number | null;
+  budget: ReasoningBudget | null;
+  branches: { name: string; confidence: number; failed: boolean; agreement?: number; hypotheses: string[] }[];
+  recurrenceCount: number;
+  /** Document library passages the branches cited. */
+  sources: { id: string; source: string; lines: [number, number] }[];
+  degradations: string[];
+  cost: number;
+  totalTokens: number;
+  cacheHits: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface BatchOptions {
+  /** JSONL file the records are appended to; prompts already answered there are skipped. */
+  output: string;
+  tier?: NexusTier;
+  /** Prompts run at the same time (default 1). */
+  concurrency?: number;
+  /** Applied to every run; its tier is replaced by the prompt's or the batch's. */
+  run?: Omit<RunOptions, "tier" | "session" | "signal">;
+  /** Aborting it cancels the runs in flight; nothing further is started. */
+  signal?: AbortSignal;
+  onRecord?: (record: BatchRecord) => void;
+}
+
+export interface BatchSummary {
+  total: number;
+  /** Already answered in the output file by an earlier invocation. */
+  skipped: number;
+  succeeded: number;
+  failed: number;
+  cancelled: boolean;
+}
+
+/**
+ * Reads a JSONL prompt file: one `{ "prompt", "id"?, "tier"? }` object, or a bare JSON
+ * string, per line. Ids default to the line number and must be unique, since resuming
+ * matches on them. Every malformed line is reported at once, with its line number.
+ */
+export function loadPrompts(file: string): BatchPrompt[] {
+  const prompts: BatchPrompt[] = [];
+  const issues: string[] = [];
+
+  fs.readFileSync(file, "utf8").split("\n").forEach((line, i) => {
+    if (!line.trim()) return;
+    const at = `${file}:${i + 1}`;
+    let raw: any;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      issues.push(`${at} is not valid JSON`);
+      return;
+    }
+    if (typeof raw === "string") raw = { prompt: raw };
+    if (!raw || typeof raw.prompt !== "string" || !raw.prompt.trim()) {
+      issues.push(`${at} needs a "prompt"`);
+      return;
+    }
+    if (raw.tier !== undefined && !TIERS.includes(raw.tier)) issues.push(`${at} tier must be one of ${TIERS.join(", ")}`);
+
+    const id = raw.id !== undefined ? String(raw.id) : `#${i + 1}`;
+    if (prompts.some(p => p.id === id)) issues.push(`${at} repeats the id "${id}"`);
+    prompts.push({ id, prompt: raw.prompt, tier: raw.tier });
+  });
+
+  if (issues.length > 0) throw new Error(`Invalid prompt file:\n${issues.map(i => `  - ${i}`).join("\n")}`);
+  if (prompts.length === 0) throw new Error(`${file} contains no prompts`);
+  return prompts;
+}
+
+/**
+ * Ids answered successfully in an existing output file. Failed records are not counted,
+ * so a resumed batch retries them; a line cut short by a crash is ignored.
+ */
+export function completedIds(output: string): Set<string> {
+  const ids = new Set<string>();
+  if (!fs.existsSync(output)) return ids;
+  fs.readFileSync(output, "utf8").split("\n").forEach(line => {
+    try {
+      const record = JSON.parse(line) as BatchRecord;
+      if (record && typeof record.id === "string" && !record.error) ids.add(record.id);
+    } catch {
+      // Partial or foreign line
+    }
+  });
+  return ids;
+}
+
+// Ends a line a crash cut short, so the next record starts on a line of its own
+function endPartialLine(output: string): void {
+  if (!fs.existsSync(output)) return;
+  const { size } = fs.statSync(output);
+  if (size === 0) return;
+  const fd = fs.openSync(output, "r");
+  const last = Buffer.alloc(1);
+  try {
+    fs.readSync(fd, last, 0, 1, size - 1);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (last[0] !== 0x0a) fs.appendFileSync(output, "\n", "utf8");
+}
+
+export function batchRecord(item: BatchPrompt, result: ARDRRunResult): BatchRecord {
+  const { state } = result;
+  return {
+    id: item.id,
+    prompt: item.prompt,
+    tier: state.tier,
+    answer: result.finalResponse,
+    fastPath: result.fastPath,
+    uncertainty: result.fastPath ? null : state.verification.uncertaintyScore,
+    budget: state.budget,
+    branches: state.branchOutputs.map(b => ({
+      name: b.branchName,
+      confidence: b.confidence,
+      failed: b.failed === true,
+      agreement: b.agreement,
+      hypotheses: b.hypotheses
+    })),
+    recurrenceCount: state.recurrenceCount,
+    sources: collectCitations(state.branchOutputs).map(({ id, source, lines }) => ({ id, source, lines })),
+    degradations: state.degradations,
+    cost: result.cost.totalCost,
+    totalTokens: result.usage.totalTokens,
+    cacheHits: result.cost.cache.hits,
+    durationMs: result.timing.durationMs
+  };
+}
+
+function failedRecord(item: BatchPrompt, tier: NexusTier, error: Error, durationMs: number): BatchRecord {
+  return {
+    id: item.id,
+    prompt: item.prompt,
+    tier,
+    answer: "",
+    fastPath: false,
+    uncertainty: null,
+    budget: null,
+    branches: [],
+    recurrenceCount: 0,
+    sources: [],
+    degradations: [],
+    cost: 0,
+    totalTokens: 0,
+    cacheHits: 0,
+    durationMs,
+    error: error.message
+  };
+}
+
+/**
+ * Runs every prompt not yet answered in the output file, `concurrency` at a time, and
+ * appends one record per prompt as it finishes, so an interrupted batch resumes where it
+ * stopped. A failed prompt is recorded with its error and does not stop the batch.
+ */
+export async function runBatch(ardr: ARDRInstance, prompts: BatchPrompt[], options: BatchOptions): Promise<BatchSummary> {
+  const done = completedIds(options.output);
+  const pending = prompts.filter(p => !done.has(p.id));
+  const summary: BatchSummary = { total: prompts.length, skipped: prompts.length - pending.length, succeeded: 0, failed: 0, cancelled: false };
+  fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+  endPartialLine(options.output);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length && !options.signal?.aborted) {
+      const item = pending[next++];
+      const tier = item.tier || options.tier || "high";
+      const startedAt = Date.now();
+      let record: BatchRecord;
+      try {
+        const result = await ardr.run(item.prompt, { ...options.run, tier, signal: options.signal });
+        record = batchRecord(item, result);
+        summary.succeeded++;
+      } catch (error: any) {
+        // A cancelled prompt is left out, so the next invocation runs it again
+        if (error instanceof RunCancelledError) return;
+        record = failedRecord(item, tier, error, Date.now() - startedAt);
+        summary.failed++;
+      }
+      fs.appendFileSync(options.output, JSON.stringify(record) + "\n", "utf8");
+      options.onRecord?.(record);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency ?? 1, pending.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  summary.cancelled = options.signal?.aborted === true;
+  return summary;
+}
@@ -0,0 +1,328 @@
+import { MODELS } from "./ARDR_models";
+import { BranchDefinition, BranchOutput, Citation, RunContext, ToolCallRecord } from "./ARDR_types";
+import { callModel, ModelCallError, parseJsonFromResponse } from "./ARDR_utils";
+import { BRANCH_SCHEMA, SEARCH_REQUEST_SCHEMA, callModelJson, validateOutput } from "./ARDR_schemas";
+import { sampleAgreement } from "./ARDR_uncertainty";
+import { emitLog } from "./ARDR_events";
+import { citedPassages, formatPassages, toCitation } from "./ARDR_retrieval";
+import { resolveBranchTools } from "./ARDR_tools";
+
+export const BRANCH_OUTPUT_FORMAT =
+  `Output JSON: { "hypotheses": [...], "artifacts": [...], "notes": "...", "contradictions": [...], "confidence": 0.0-1.0 }`;
+
+const registry = new Map<string, BranchDefinition>();
+
+const EXECUTION_NOTE = `
+
+Artifacts are executed in a sandbox without network access, and failures are reported back.`;
+
+/**
+ * Adds (or replaces) a reasoning branch. Registered branches are offered to the
+ * Task Profiler and can be run by stage B and re-run by stage D.
+ */
+export function registerBranch(definition: BranchDefinition): void {
+  if (!/^[a-z][a-z0-9_-]*$/.test(definition.name)) {
+    throw new Error(`Invalid branch name "${definition.name}": use lowercase letters, digits, "-" or "_"`);
+  }
+  registry.set(definition.name, definition);
+}
+
+export function unregisterBranch(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function getBranch(name: string): BranchDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listBranches(): BranchDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Model for a branch: the pipeline config wins over the registered default, so
+ * profiles can move a branch to another model without re-registering it.
+ */
+export function resolveBranchModel(name: string, ctx: RunContext): string {
+  return ctx.config.branches[name]?.model || registry.get(name)?.model || ctx.config.models.cheap;
+}
+
+/**
+ * System prompt of a branch in this run. Branches whose code is executed
+ * (`execution.branches` while `execution.enabled`) are told so.
+ */
+export function branchSystemPrompt(definition: BranchDefinition, ctx: RunContext): string {
+  const { enabled, branches } = ctx.config.execution;
+  return enabled && branches.includes(definition.name) ? definition.systemPrompt + EXECUTION_NOTE : definition.systemPrompt;
+}
+
+export function resolveBranchFallbacks(name: string, ctx: RunContext): string[] {
+  return ctx.config.branches[name]?.fallbackModels ?? [ctx.config.models.cheap];
+}
+
+export function failedBranchOutput(branchName: string, error: Error): BranchOutput {
+  return {
+    branchName,
+    hypotheses: [],
+    artifacts: [],
+    notes: "",
+    contradictions: [],
+    confidence: 0,
+    failed: true,
+    error: error.message
+  };
+}
+
+export function parseBranchOutput(response: string, branchName: string): BranchOutput | null {
+  const { value } = validateOutput(parseJsonFromResponse(response), BRANCH_SCHEMA);
+  return value ? { branchName, ...value } : null;
+}
+
+/**
+ * Runs one branch call with the branch's model and settings. Built-in JSON branches get
+ * schema validation with a repair re-prompt; custom parsers are trusted as-is and a
+ * rejected output is recorded as a validation failure. A model failure comes back as
+ * `error` rather than as response text. `temperature` overrides the branch's own. With
+ * `toolCalls` above 0 the branch may call its tools that many times before answering.
+ */
+export async function callBranch(
+  branchName: string,
+  systemPrompt: string,
+  userPrompt: string,
+  ctx: RunContext,
+  stage: string = "branches",
+  temperature?: number,
+  toolCalls: number = 0
+): Promise<{ output: BranchOutput | null; response: string; error?: ModelCallError }> {
+  try {
+    return await callBranchModel(branchName, systemPrompt, userPrompt, ctx, stage, temperature, toolCalls);
+  } catch (error) {
+    if (!(error instanceof ModelCallError)) throw error;
+    return { output: null, response: "", error };
+  }
+}
+
+async function callBranchModel(
+  branchName: string,
+  systemPrompt: string,
+  userPrompt: string,
+  ctx: RunContext,
+  stage: string,
+  temperature: number | undefined,
+  toolCalls: number
+): Promise<{ output: BranchOutput | null; response: string }> {
+  const definition = registry.get(branchName);
+  const settings = ctx.config.branches[branchName];
+  const model = resolveBranchModel(branchName, ctx);
+  const maxTokens = settings?.maxTokens ?? ctx.config.maxTokens.branch;
+  const records: ToolCallRecord[] = [];
+  const options = {
+    temperature: temperature ?? settings?.temperature,
+    fallbacks: resolveBranchFallbacks(branchName, ctx),
+    stage,
+    branch: branchName,
+    tools: toolCalls > 0 ? resolveBranchTools(branchName, ctx) : [],
+    maxToolCalls: toolCalls,
+    onToolCall: (record: ToolCallRecord) => { records.push(record); }
+  };
+  const withToolCalls = (output: BranchOutput | null) => output && records.length > 0 ? { ...output, toolCalls: records } : output;
+
+  if (definition?.parseOutput) {
+    const response = await callModel(model, systemPrompt, userPrompt, maxTokens, ctx, options);
+    const output = definition.parseOutput(response, branchName);
+    if (!output) {
+      ctx.validationFailures.push({
+        stage: branchName,
+        schema: "custom",
+        issues: ["custom parser rejected the output"],
+        repaired: false,
+        timestamp: Date.now()
+      });
+    }
+    return { output: withToolCalls(output), response };
+  }
+
+  const result = await callModelJson(BRANCH_SCHEMA, branchName.toUpperCase(), model, systemPrompt, userPrompt, maxTokens, ctx, options);
+  return { output: withToolCalls(result.value ? { branchName, ...result.value } : null), response: result.raw };
+}
+
+const SEARCH_PLANNER_PROMPT = `You plan document searches for one branch of a reasoning network. Given the task and the passages found so far, list up to 3 short keyword queries for facts the branch still needs that the passages do not cover.
+Output JSON: { "queries": [...] } - an empty list when the passages are enough.`;
+
+const CITATION_INSTRUCTION = `
+
+Passages from the local document library follow the task as [S1], [S2], ... Base factual claims on them where they apply and cite them inline, e.g. "... [S2]". When the library does not cover a claim, say so rather than citing a passage that does not support it.`;
+
+/**
+ * Searches the document library for a branch listed in `retrieval.branches`: once with
+ * the task itself, then with the queries the branch's model asks for, for up to
+ * `maxSearches` rounds. A failed planner call keeps the passages found so far.
+ */
+export async function retrievePassages(branchName: string, userPrompt: string, ctx: RunContext, stage: string): Promise<Citation[]> {
+  const settings = ctx.config.retrieval;
+  const index = ctx.retrieval;
+  if (!index || !settings.branches.includes(branchName)) return [];
+
+  const limit = settings.topK * (settings.maxSearches + 1);
+  const found = new Map<string, Citation>();
+  const add = async (query: string) => {
+    const chunks = await index.search(query, settings.topK);
+    ctx.trace?.recordSearch({ query, limit: settings.topK, results: chunks });
+    chunks.forEach(chunk => {
+      const citation = toCitation(ctx, chunk);
+      if (found.size < limit) found.set(citation.id, citation);
+    });
+    return chunks.length;
+  };
+
+  await add(userPrompt);
+  const asked = new Set<string>();
+  for (let round = 1; round <= settings.maxSearches && found.size < limit; round++) {
+    let queries: string[];
+    try {
+      const { value } = await callModelJson(
+        SEARCH_REQUEST_SCHEMA,
+        branchName.toUpperCase(),
+        resolveBranchModel(branchName, ctx),
+        SEARCH_PLANNER_PROMPT,
+        `${userPrompt}\n\n=== PASSAGES FOUND SO FAR ===\n${formatPassages(Array.from(found.values())) || "None"}`,
+        300,
+        ctx,
+        { fallbacks: resolveBranchFallbacks(branchName, ctx), stage, branch: branchName }
+      );
+      queries = (value?.queries || []).map(q => q.trim()).filter(q => q && !asked.has(q.toLowerCase())).slice(0, 3);
+    } catch (error) {
+      if (!(error instanceof ModelCallError)) throw error;
+      break;
+    }
+    if (queries.length === 0) break;
+
+    for (const query of queries) {
+      asked.add(query.toLowerCase());
+      emitLog(ctx, branchName.toUpperCase(), `Searched "${query}": ${await add(query)} passages`, "info");
+    }
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Calls a branch `samples` times in parallel at the sampling temperature and keeps the
+ * sample that agrees most with the others, with the samples' mean confidence and their
+ * agreement. A single sample is a plain `callBranch`; the call only fails when every
+ * sample failed. Branches with the document library get the retrieved passages first
+ * (shared by all samples) and come back with the ones they cite. Each sample has its
+ * own `toolCalls` allowance.
+ */
+export async function sampleBranch(
+  branchName: string,
+  systemPrompt: string,
+  userPrompt: string,
+  samples: number,
+  ctx: RunContext,
+  stage: string = "branches",
+  toolCalls: number = 0
+): Promise<{ output: BranchOutput | null; response: string; error?: ModelCallError }> {
+  const passages = await retrievePassages(branchName, userPrompt, ctx, stage);
+  if (passages.length === 0) return drawSamples(branchName, systemPrompt, userPrompt, samples, ctx, stage, toolCalls);
+
+  const result = await drawSamples(
+    branchName,
+    systemPrompt + CITATION_INSTRUCTION,
+    `${userPrompt}\n\n=== RETRIEVED PASSAGES ===\n${formatPassages(passages)}`,
+    samples,
+    ctx,
+    stage,
+    toolCalls
+  );
+  return result.output ? { ...result, output: { ...result.output, citations: citedPassages(result.output, passages) } } : result;
+}
+
+async function drawSamples(
+  branchName: string,
+  systemPrompt: string,
+  userPrompt: string,
+  samples: number,
+  ctx: RunContext,
+  stage: string,
+  toolCalls: number
+): Promise<{ output: BranchOutput | null; response: string; error?: ModelCallError }> {
+  if (samples <= 1) return callBranch(branchName, systemPrompt, userPrompt, ctx, stage, undefined, toolCalls);
+
+  const temperature = ctx.config.uncertainty.temperature;
+  const results = await Promise.all(Array.from({ length: samples }, () =>
+    callBranch(branchName, systemPrompt, userPrompt, ctx, stage, temperature, toolCalls)));
+  const succeeded = results.filter(r => !r.error);
+  if (succeeded.length === 0) return results[0];
+
+  // Unparseable samples only count when no sample parsed
+  const parsed = succeeded.filter(r => r.output);
+  const pool = parsed.length > 0 ? parsed : succeeded;
+  if (pool.length < 2) return pool[0];
+
+  const { agreement, representative } = sampleAgreement(pool.map(r => r.output ? r.output.hypotheses : [r.response.slice(0, 500)]));
+  const chosen = pool[representative];
+  if (!chosen.output) return chosen;
+  const confidence = parsed.reduce((sum, r) => sum + (r.output as BranchOutput).confidence, 0) / parsed.length;
+  return { ...chosen, output: { ...chosen.output, confidence, samples: pool.length, agreement } };
+}
+
+registerBranch({
+  name: "logic",
+  description: "deductive reasoning, fallacy checks, proof chains",
+  model: MODELS.logic,
+  systemPrompt: `You are the Logic Branch of a reasoning network. Analyze using formal logic:
+- Apply deductive reasoning
+- Check for logical fallacies
+- Build proof chains
+- Identify necessary and sufficient conditions
+${BRANCH_OUTPUT_FORMAT}`
+});
+
+registerBranch({
+  name: "pattern",
+  description: "recurring patterns, analogies, transformations",
+  model: MODELS.pattern,
+  systemPrompt: `You are the Pattern Branch of a reasoning network. Analyze patterns and structures:
+- Identify recurring patterns
+- Find analogies to known problems
+- Detect spatial/temporal relationships
+- Recognize transformations
+${BRANCH_OUTPUT_FORMAT}`
+});
+
+registerBranch({
+  name: "world",
+  description: "factual claims and real-world domain knowledge",
+  model: MODELS.world,
+  systemPrompt: `You are the World Knowledge Branch of a reasoning network. Apply real-world knowledge:
+- Verify factual claims
+- Apply domain expertise
+- Check temporal consistency
+- Validate against known principles
+${BRANCH_OUTPUT_FORMAT}`
+});
+
+registerBranch({
+  name: "code",
+  description: "algorithms, code solutions, edge cases",
+  model: MODELS.code,
+  systemPrompt: `You are the Code/Algorithm Branch of a reasoning network. Focus on implementation:
+- Design algorithms
+- Write code solutions
+- Optimize for efficiency
+- Handle edge cases
+Put each solution in "artifacts" as a self-contained fenced block (\`\`\`python, \`\`\`javascript or \`\`\`typescript) ending with assert-based tests.
+${BRANCH_OUTPUT_FORMAT}`
+});
+
+registerBranch({
+  name: "adversarial",
+  description: "counterexamples, stress-testing assumptions, failure modes",
+  model: MODELS.adversarial,
+  systemPrompt: `You are the Adversarial Branch of a reasoning network. Challenge everything:
+- Find counterexamples
+- Stress test assumptions
+- Identify failure modes
+- Attack weak arguments
+${BRANCH_OUTPUT_FORMAT}`
+});
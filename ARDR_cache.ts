@@ -0,0 +1,204 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { CacheSettings, CachedResponse, ModelRequest, ResponseCache, RunContext } from "./ARDR_types";
+
+/** Part of every key, so a change to what is stored cannot serve older entries. */
+export const CACHE_VERSION = 2;
+
+type CacheableRequest = Pick<ModelRequest, "model" | "messages" | "maxTokens" | "temperature" | "tools" | "toolChoice">;
+
+/**
+ * Content address of a call: the provider (name and endpoint), model, system prompt, user
+ * prompt, temperature and max tokens, plus which identical call of its run this is. A call
+ * offering tools also keys on the tool names and on the calls and results earlier in its
+ * conversation.
+ */
+export function cacheKey(request: CacheableRequest, provider: string, occurrence: number = 0): string {
+  const system = request.messages.filter(m => m.role === "system").map(m => m.content).join("\n");
+  const conversation = request.messages.filter(m => m.role !== "system");
+  const user = request.tools ? JSON.stringify(conversation) : conversation.map(m => m.content).join("\n");
+  const tools = request.tools ? [request.tools.map(t => t.name), request.toolChoice] : [];
+  return createHash("sha256")
+    .update(JSON.stringify([CACHE_VERSION, provider, request.model, system, user, request.temperature, request.maxTokens, occurrence, ...tools]))
+    .digest("hex");
+}
+
+const occurrences = new WeakMap<RunContext, Map<string, number>>();
+
+/**
+ * The key of a call within its run. The n-th identical request of a run gets the n-th key,
+ * so the samples of a branch stay distinct samples when served from the cache instead of
+ * collapsing into copies of the first.
+ */
+export function runCacheKey(ctx: RunContext, request: CacheableRequest, provider: string): string {
+  const first = cacheKey(request, provider);
+  const seen = occurrences.get(ctx) || new Map<string, number>();
+  occurrences.set(ctx, seen);
+  const occurrence = seen.get(first) ?? 0;
+  seen.set(first, occurrence + 1);
+  return occurrence === 0 ? first : cacheKey(request, provider, occurrence);
+}
+
+interface DiskEntry {
+  bytes: number;
+  storedAt: number;
+}
+
+function entryFile(dir: string, key: string): string {
+  return path.join(dir, key.slice(0, 2), `${key}.json`);
+}
+
+// What earlier runs (or other processes sharing the directory) left on disk
+function scanDir(dir: string): Map<string, DiskEntry> {
+  const index = new Map<string, DiskEntry>();
+  if (!fs.existsSync(dir)) return index;
+  fs.readdirSync(dir).forEach(bucket => {
+    const bucketDir = path.join(dir, bucket);
+    if (!fs.statSync(bucketDir).isDirectory()) return;
+    fs.readdirSync(bucketDir).filter(name => name.endsWith(".json")).forEach(name => {
+      const stat = fs.statSync(path.join(bucketDir, name));
+      index.set(name.slice(0, -".json".length), { bytes: stat.size, storedAt: stat.mtimeMs });
+    });
+  });
+  return index;
+}
+
+/**
+ * An LRU of responses in memory, backed by one JSON file per key under `dir` when given.
+ * Files are written to a temporary name and renamed, so processes sharing the directory
+ * never read a partial entry. Disk errors only cost hits: a cache that cannot read or
+ * write is treated as empty, never as a failed call.
+ */
+export function createResponseCache(settings: CacheSettings, dir?: string): ResponseCache {
+  const memory = new Map<string, CachedResponse>();
+  let disk = new Map<string, DiskEntry>();
+  let diskBytes = 0;
+  let hits = 0;
+  let misses = 0;
+
+  if (dir) {
+    try {
+      disk = scanDir(dir);
+      disk.forEach(entry => { diskBytes += entry.bytes; });
+    } catch {
+      disk = new Map();
+    }
+  }
+
+  const remember = (key: string, entry: CachedResponse) => {
+    memory.delete(key);
+    memory.set(key, entry);
+    while (memory.size > settings.maxEntries) {
+      memory.delete(memory.keys().next().value as string);
+    }
+  };
+
+  const forgetOnDisk = (key: string) => {
+    if (!dir) return;
+    const known = disk.get(key);
+    if (known) {
+      diskBytes -= known.bytes;
+      disk.delete(key);
+    }
+    try {
+      fs.unlinkSync(entryFile(dir, key));
+    } catch {
+      // Already evicted by another process
+    }
+  };
+
+  const readDisk = (key: string): CachedResponse | null => {
+    if (!dir) return null;
+    try {
+      return JSON.parse(fs.readFileSync(entryFile(dir, key), "utf8")) as CachedResponse;
+    } catch {
+      return null;
+    }
+  };
+
+  const writeDisk = (key: string, entry: CachedResponse) => {
+    if (!dir) return;
+    const file = entryFile(dir, key);
+    const body = JSON.stringify(entry);
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(temp, body, "utf8");
+      fs.renameSync(temp, file);
+    } catch {
+      return;
+    }
+    const previous = disk.get(key);
+    if (previous) diskBytes -= previous.bytes;
+    const bytes = Buffer.byteLength(body);
+    disk.set(key, { bytes, storedAt: entry.storedAt });
+    diskBytes += bytes;
+
+    if (diskBytes > settings.maxBytes) {
+      const oldest = Array.from(disk.entries()).sort((a, b) => a[1].storedAt - b[1].storedAt);
+      for (const [oldKey] of oldest) {
+        if (diskBytes <= settings.maxBytes) break;
+        forgetOnDisk(oldKey);
+      }
+    }
+  };
+
+  return {
+    get(key: string): CachedResponse | null {
+      let entry = memory.get(key) || readDisk(key);
+      if (entry && settings.ttlMs > 0 && Date.now() - entry.storedAt > settings.ttlMs) {
+        memory.delete(key);
+        forgetOnDisk(key);
+        entry = null;
+      }
+      if (!entry) {
+        misses++;
+        return null;
+      }
+      hits++;
+      remember(key, entry);
+      return entry;
+    },
+
+    set(key: string, entry: CachedResponse): void {
+      remember(key, entry);
+      writeDisk(key, entry);
+    },
+
+    clear(): void {
+      memory.clear();
+      if (!dir) return;
+      // Includes what other processes stored since this one scanned the directory
+      try {
+        scanDir(dir).forEach((entry, key) => { if (!disk.has(key)) disk.set(key, entry); });
+      } catch {
+        // Clear what is known
+      }
+      Array.from(disk.keys()).forEach(forgetOnDisk);
+      diskBytes = 0;
+    },
+
+    stats() {
+      return { entries: dir ? disk.size : memory.size, hits, misses, dir };
+    }
+  };
+}
+
+const openCaches = new Map<string, ResponseCache>();
+
+/**
+ * One cache per directory per process, so every ARDR instance pointed at the same
+ * directory (the REPL, the server, a batch run) shares hits and the size accounting.
+ * The settings of the first opener apply. Without a directory the cache is memory only.
+ */
+export function openResponseCache(settings: CacheSettings, dir?: string): ResponseCache {
+  if (!dir) return createResponseCache(settings);
+  const resolved = path.resolve(dir);
+  let cache = openCaches.get(resolved);
+  if (!cache) {
+    cache = createResponseCache(settings, resolved);
+    openCaches.set(resolved, cache);
+  }
+  return cache;
+}
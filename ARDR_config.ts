@@ -0,0 +1,368 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_PIPELINE_CONFIG } from "./ARDR_models";
+import { PipelineConfig } from "./ARDR_types";
+
+export const CONFIG_FILE_NAMES = ["ardr.config.json", "ardr.config.yaml", "ardr.config.yml"];
+
+export class ConfigError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid ARDR config (${source}):\n${issues.map(i => `  - ${i}`).join("\n")}`);
+  }
+}
+
+type Rule =
+  | { type: "string" }
+  | { type: "boolean" }
+  | { type: "stringList" }
+  | { type: "number"; min?: number; max?: number; integer?: boolean }
+  | { type: "object"; fields: Record<string, Rule> }
+  | { type: "record"; keys?: string[]; value: Rule };
+
+const positiveInt: Rule = { type: "number", min: 1, integer: true };
+const unitInterval: Rule = { type: "number", min: 0, max: 1 };
+const temperature: Rule = { type: "number", min: 0, max: 2 };
+const modelList: Rule = { type: "stringList" };
+const milliseconds: Rule = { type: "number", min: 0, integer: true };
+const count: Rule = { type: "number", min: 0, integer: true };
+
+const PIPELINE_SCHEMA: Rule = {
+  type: "object",
+  fields: {
+    models: {
+      type: "object",
+      fields: { profiler: { type: "string" }, cheap: { type: "string" }, condenser: { type: "string" } }
+    },
+    fallbacks: {
+      type: "object",
+      fields: { profiler: modelList, cheap: modelList, condenser: modelList }
+    },
+    branches: {
+      type: "record",
+      value: {
+        type: "object",
+        fields: { enabled: { type: "boolean" }, model: { type: "string" }, fallbackModels: modelList, temperature, maxTokens: positiveInt, tools: { type: "stringList" } }
+      }
+    },
+    tiers: {
+      type: "record",
+      keys: ["low", "high", "max"],
+      value: {
+        type: "object",
+        fields: {
+          label: { type: "string" },
+          chiefModel: { type: "string" },
+          fallbackModels: modelList,
+          maxDepth: { type: "number", min: 0, max: 10, integer: true },
+          reflectionRounds: { type: "number", min: 0, max: 5, integer: true },
+          samples: { type: "number", min: 1, max: 5, integer: true },
+          synthesisMaxTokens: positiveInt,
+          synthesisCandidates: { type: "number", min: 1, max: 5, integer: true },
+          candidateModels: modelList,
+          toolCalls: count
+        }
+      }
+    },
+    temperature,
+    maxTokens: {
+      type: "object",
+      fields: {
+        profiler: positiveInt,
+        decomposition: positiveInt,
+        branch: positiveInt,
+        verification: positiveInt,
+        controller: positiveInt,
+        conversation: positiveInt
+      }
+    },
+    thresholds: {
+      type: "object",
+      fields: { uncertainty: unitInterval, minBranchScore: unitInterval }
+    },
+    pricing: {
+      type: "record",
+      value: {
+        type: "object",
+        fields: { prompt: { type: "number", min: 0 }, completion: { type: "number", min: 0 } }
+      }
+    },
+    maxRunCost: { type: "number", min: 0 },
+    retry: {
+      type: "object",
+      fields: { attempts: positiveInt, baseDelayMs: milliseconds, maxDelayMs: milliseconds }
+    },
+    timeouts: {
+      type: "object",
+      fields: { call: positiveInt, synthesis: positiveInt }
+    },
+    execution: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        branches: { type: "stringList" },
+        maxBlocks: { type: "number", min: 0, integer: true },
+        timeoutMs: positiveInt,
+        memoryMb: { type: "number", min: 16, integer: true },
+        maxOutputBytes: positiveInt
+      }
+    },
+    math: {
+      type: "object",
+      fields: { enabled: { type: "boolean" }, taskTypes: { type: "stringList" }, maxClaims: positiveInt }
+    },
+    deadline: {
+      type: "object",
+      fields: { runMs: milliseconds, synthesisReserveMs: milliseconds, verificationReserveMs: milliseconds }
+    },
+    retrieval: {
+      type: "object",
+      fields: {
+        enabled: { type: "boolean" },
+        dir: { type: "string" },
+        extensions: { type: "stringList" },
+        maxFileBytes: positiveInt,
+        chunkChars: { type: "number", min: 200, integer: true },
+        chunkOverlap: count,
+        topK: positiveInt,
+        maxSearches: count,
+        branches: { type: "stringList" },
+        embeddings: {
+          type: "object",
+          fields: { baseUrl: { type: "string" }, model: { type: "string" }, weight: unitInterval }
+        }
+      }
+    },
+    tools: {
+      type: "object",
+      fields: { enabled: { type: "boolean" }, root: { type: "string" }, maxSteps: positiveInt, maxResultChars: positiveInt, timeoutMs: positiveInt }
+    },
+    attachments: {
+      type: "object",
+      fields: {
+        maxFileBytes: positiveInt,
+        maxFiles: positiveInt,
+        inlineChars: count,
+        chunkChars: { type: "number", min: 1000, integer: true },
+        summaryMaxTokens: positiveInt
+      }
+    },
+    cache: {
+      type: "object",
+      fields: { enabled: { type: "boolean" }, ttlMs: milliseconds, maxEntries: positiveInt, maxBytes: positiveInt }
+    },
+    uncertainty: {
+      type: "object",
+      fields: {
+        temperature,
+        weights: {
+          type: "record",
+          keys: ["verifier", "confidence", "samples", "branches", "claims", "checks"],
+          value: { type: "number", min: 0 }
+        },
+        calibration: {
+          type: "object",
+          fields: { slope: { type: "number" }, intercept: { type: "number" }, samples: { type: "number", min: 0, integer: true } }
+        }
+      }
+    }
+  }
+};
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkRule(value: unknown, rule: Rule, at: string, issues: string[]): void {
+  switch (rule.type) {
+    case "string":
+      if (typeof value !== "string" || !value.trim()) issues.push(`${at} must be a non-empty string`);
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") issues.push(`${at} must be true or false`);
+      return;
+    case "stringList":
+      if (!Array.isArray(value) || value.some(item => typeof item !== "string" || !item.trim())) {
+        issues.push(`${at} must be a list of non-empty strings`);
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        issues.push(`${at} must be a number`);
+      } else if (rule.integer && !Number.isInteger(value)) {
+        issues.push(`${at} must be an integer`);
+      } else if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        issues.push(`${at} must be between ${rule.min ?? "-∞"} and ${rule.max ?? "∞"}`);
+      }
+      return;
+    case "object":
+      if (!isPlainObject(value)) {
+        issues.push(`${at} must be an object`);
+        return;
+      }
+      Object.entries(value).forEach(([key, child]) => {
+        const childRule = rule.fields[key];
+        if (!childRule) {
+          issues.push(`${at ? `${at}.` : ""}${key} is not a known setting`);
+        } else {
+          checkRule(child, childRule, at ? `${at}.${key}` : key, issues);
+        }
+      });
+      return;
+    case "record":
+      if (!isPlainObject(value)) {
+        issues.push(`${at} must be an object`);
+        return;
+      }
+      Object.entries(value).forEach(([key, child]) => {
+        if (rule.keys && !rule.keys.includes(key)) {
+          issues.push(`${at}.${key} is not one of: ${rule.keys.join(", ")}`);
+        } else {
+          checkRule(child, rule.value, `${at}.${key}`, issues);
+        }
+      });
+      return;
+  }
+}
+
+/**
+ * Validates a full or partial pipeline config and returns human-readable issues
+ * (empty when valid). Partial configs are allowed because files only list overrides.
+ */
+export function validatePipelineConfig(value: unknown): string[] {
+  const issues: string[] = [];
+  checkRule(value, PIPELINE_SCHEMA, "", issues);
+  return issues;
+}
+
+export function mergeConfig<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const merged: Record<string, any> = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    merged[key] = key in merged ? mergeConfig(merged[key], value) : value;
+  });
+  return merged as T;
+}
+
+// The schema rule for a key path, or undefined when the path is not a known setting
+function ruleAt(keys: string[]): Rule | undefined {
+  let rule: Rule | undefined = PIPELINE_SCHEMA;
+  for (const key of keys) {
+    if (rule?.type === "object") rule = rule.fields[key];
+    else if (rule?.type === "record") rule = rule.value;
+    else return undefined;
+  }
+  return rule;
+}
+
+/**
+ * Applies a `key.path=value` override such as `thresholds.uncertainty=0.4`.
+ * Values are parsed as JSON when possible, so numbers stay numbers, except for string
+ * settings, which take the text as given (`retrieval.dir=2024` stays a directory name)
+ * unless it is a quoted JSON string.
+ */
+export function applyOverride(config: Record<string, any>, assignment: string): Record<string, any> {
+  const eq = assignment.indexOf("=");
+  if (eq <= 0) {
+    throw new ConfigError("--set", [`"${assignment}" must look like key.path=value`]);
+  }
+  const keys = assignment.slice(0, eq).trim().split(".");
+  const raw = assignment.slice(eq + 1).trim();
+  let value: unknown = raw;
+  const isString = ruleAt(keys)?.type === "string";
+  // A quoted string is still unquoted, so `models.cheap="x"` works as before
+  if (!isString || raw.startsWith('"')) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (!isString || typeof parsed === "string") value = parsed;
+    } catch {}
+  }
+
+  const override: Record<string, any> = {};
+  let cursor = override;
+  keys.slice(0, -1).forEach(key => {
+    cursor[key] = {};
+    cursor = cursor[key];
+  });
+  cursor[keys[keys.length - 1]] = value;
+  return mergeConfig(config, override);
+}
+
+function parseConfigText(text: string, source: string): any {
+  if (/\.ya?ml$/i.test(source)) {
+    let yaml: { parse(text: string): any };
+    try {
+      yaml = require("yaml");
+    } catch {
+      throw new ConfigError(source, ['YAML configs need the "yaml" package (npm install yaml), or use ardr.config.json']);
+    }
+    return yaml.parse(text);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new ConfigError(source, [`not valid JSON: ${error.message}`]);
+  }
+}
+
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+export interface ResolveConfigOptions {
+  path?: string;
+  profile?: string;
+  overrides?: string[];
+  cwd?: string;
+}
+
+/**
+ * Builds the effective pipeline config: built-in defaults, then the config file,
+ * then the selected profile from its `profiles` section, then `--set` overrides.
+ */
+export function resolvePipelineConfig(options: ResolveConfigOptions = {}): PipelineConfig {
+  let config: PipelineConfig = DEFAULT_PIPELINE_CONFIG;
+  const file = options.path ? path.resolve(options.cwd || process.cwd(), options.path) : findConfigFile(options.cwd);
+
+  if (file) {
+    if (!fs.existsSync(file)) {
+      throw new ConfigError(file, ["file not found"]);
+    }
+    const parsed = parseConfigText(fs.readFileSync(file, "utf8"), file);
+    if (!isPlainObject(parsed)) {
+      throw new ConfigError(file, ["top level must be an object"]);
+    }
+    const { profiles, ...base } = parsed;
+
+    const baseIssues = validatePipelineConfig(base);
+    if (baseIssues.length > 0) throw new ConfigError(file, baseIssues);
+    config = mergeConfig(config, base);
+
+    if (options.profile) {
+      const profile = isPlainObject(profiles) ? profiles[options.profile] : undefined;
+      if (!profile) {
+        const known = isPlainObject(profiles) ? Object.keys(profiles).join(", ") : "none defined";
+        throw new ConfigError(file, [`profile "${options.profile}" not found (available: ${known})`]);
+      }
+      const profileIssues = validatePipelineConfig(profile).map(i => `profiles.${options.profile}.${i}`);
+      if (profileIssues.length > 0) throw new ConfigError(file, profileIssues);
+      config = mergeConfig(config, profile);
+    }
+  } else if (options.profile) {
+    throw new ConfigError("--profile", ["no config file found to select a profile from"]);
+  }
+
+  (options.overrides || []).forEach(assignment => {
+    config = applyOverride(config, assignment) as PipelineConfig;
+  });
+
+  const issues = validatePipelineConfig(config);
+  if (issues.length > 0) throw new ConfigError(file || "--set", issues);
+
+  return config;
+}
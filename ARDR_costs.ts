@@ -0,0 +1,124 @@
+import {
+  CallOptions,
+  CostBreakdown,
+  CostReport,
+  PipelineConfig,
+  RunContext,
+  TokenUsage,
+  UsageRecord
+} from "./ARDR_types";
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Price of a call in USD from the per-million-token rate table, or null when the
+ * model has no entry (so unpriced calls are visible instead of silently free).
+ */
+export function priceUsage(model: string, usage: TokenUsage, config: PipelineConfig): number | null {
+  const price = config.pricing[model];
+  if (!price) return null;
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number, config: PipelineConfig): number {
+  return priceUsage(model, { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }, config) ?? 0;
+}
+
+/**
+ * Adds a completed call to the run totals, attributed to the stage and branch named in
+ * the call options. Providers that report no usage are estimated from the text. A cached
+ * call is recorded with its original usage but adds nothing to the totals.
+ */
+export function recordUsage(
+  ctx: RunContext,
+  model: string,
+  usage: TokenUsage | undefined,
+  options: CallOptions,
+  text: { prompt: string; completion: string },
+  cached: boolean = false
+): void {
+  const estimated = !usage;
+  const counted = usage || {
+    promptTokens: estimateTokens(text.prompt),
+    completionTokens: estimateTokens(text.completion),
+    totalTokens: estimateTokens(text.prompt) + estimateTokens(text.completion)
+  };
+
+  if (!cached) {
+    ctx.usage.promptTokens += counted.promptTokens;
+    ctx.usage.completionTokens += counted.completionTokens;
+    ctx.usage.totalTokens += counted.totalTokens;
+  }
+  ctx.usageRecords.push({
+    stage: options.stage || "other",
+    branch: options.branch,
+    model,
+    ...counted,
+    cost: priceUsage(model, counted, ctx.config),
+    estimated,
+    cached
+  });
+}
+
+export function runCost(ctx: RunContext): number {
+  return ctx.usageRecords.reduce((sum, record) => sum + (record.cached ? 0 : record.cost ?? 0), 0);
+}
+
+function addTo(group: Record<string, CostBreakdown>, key: string, record: UsageRecord): void {
+  const entry = group[key] || (group[key] = { calls: 0, totalTokens: 0, cost: 0 });
+  entry.calls++;
+  entry.totalTokens += record.totalTokens;
+  entry.cost += record.cost ?? 0;
+}
+
+export function summarizeUsage(records: UsageRecord[]): CostReport {
+  const report: CostReport = {
+    totalCost: 0,
+    totalTokens: 0,
+    unpricedModels: [],
+    byStage: {},
+    byBranch: {},
+    byModel: {},
+    cache: { hits: 0, savedTokens: 0, savedCost: 0 }
+  };
+  records.forEach(record => {
+    if (record.cached) {
+      report.cache.hits++;
+      report.cache.savedTokens += record.totalTokens;
+      report.cache.savedCost += record.cost ?? 0;
+      return;
+    }
+    report.totalCost += record.cost ?? 0;
+    report.totalTokens += record.totalTokens;
+    if (record.cost === null && !report.unpricedModels.includes(record.model)) {
+      report.unpricedModels.push(record.model);
+    }
+    addTo(report.byStage, record.stage, record);
+    if (record.branch) addTo(report.byBranch, record.branch, record);
+    addTo(report.byModel, record.model, record);
+  });
+  return report;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+export function formatCostReport(report: CostReport): string[] {
+  const row = (name: string, b: CostBreakdown) =>
+    `  ${name.padEnd(14)} ${String(b.calls).padStart(3)} calls ${b.totalTokens.toLocaleString().padStart(9)} tokens  ${formatCost(b.cost)}`;
+  const calls = Object.values(report.byStage).reduce((sum, b) => sum + b.calls, 0);
+
+  const lines = [`${calls} calls | ${report.totalTokens.toLocaleString()} tokens | ${formatCost(report.totalCost)}`];
+  Object.entries(report.byStage).forEach(([stage, b]) => lines.push(row(stage, b)));
+  Object.entries(report.byBranch).forEach(([branch, b]) => lines.push(row(`└ ${branch}`, b)));
+  if (report.cache.hits > 0) {
+    lines.push(`  ${"cache hits".padEnd(14)} ${String(report.cache.hits).padStart(3)} calls ${report.cache.savedTokens.toLocaleString().padStart(9)} tokens  ${formatCost(report.cache.savedCost)} saved`);
+  }
+  if (report.unpricedModels.length > 0) {
+    lines.push(`  unpriced: ${report.unpricedModels.join(", ")}`);
+  }
+  return lines;
+}
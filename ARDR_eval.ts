@@ -0,0 +1,409 @@
+import * as fs from "fs";
+import { DEFAULT_PIPELINE_CONFIG } from "./ARDR_models";
+import { ARDRListener, ExecutionSettings, NexusTier, RunContext, SandboxLanguage, UncertaintyCalibration } from "./ARDR_types";
+import { callModel } from "./ARDR_utils";
+import { createRunContext } from "./ARDR_events";
+import { formatCost, summarizeUsage } from "./ARDR_costs";
+import { OutputSchema, callModelJson } from "./ARDR_schemas";
+import { ARDRConfig, createARDR } from "./ARDR_pipeline";
+import { extractCodeBlocks, runCode, summarizeExecution } from "./ARDR_sandbox";
+import { fitCalibration } from "./ARDR_uncertainty";
+
+export type EvalScorer = "exact" | "numeric" | "code" | "judge";
+
+export interface EvalItem {
+  id: string;
+  prompt: string;
+  reference?: string;
+  scorer: EvalScorer;
+  /** Numeric scorer: allowed absolute difference (default 1e-6). */
+  tolerance?: number;
+  /** Code scorer: assertions appended to the extracted code block. */
+  tests?: string;
+  language?: SandboxLanguage;
+}
+
+export interface EvalScore {
+  correct: boolean;
+  score: number;
+  detail: string;
+}
+
+export interface EvalItemResult {
+  id: string;
+  system: string;
+  response: string;
+  score: EvalScore;
+  /** Pipeline uncertainty; null for the baseline and fast-path runs. */
+  uncertainty: number | null;
+  /** Uncalibrated uncertainty, the input for fitting a calibration. */
+  rawUncertainty: number | null;
+  latencyMs: number;
+  cost: number;
+  totalTokens: number;
+  /** The system failed to answer. */
+  error?: string;
+  /** The answer could not be scored; it is kept, but counts as wrong. */
+  scoreError?: string;
+}
+
+export interface EvalSystemReport {
+  system: string;
+  items: number;
+  accuracy: number;
+  meanScore: number;
+  errors: number;
+  scoreErrors: number;
+  calibration: { samples: number; brier: number; ece: number } | null;
+  latency: { meanMs: number; p50Ms: number; p95Ms: number };
+  cost: { total: number; perItem: number; totalTokens: number };
+}
+
+export interface EvalReport {
+  dataset: string;
+  startedAt: number;
+  systems: EvalSystemReport[];
+  results: EvalItemResult[];
+}
+
+export interface EvalOptions {
+  ardr?: ARDRConfig;
+  tiers?: NexusTier[];
+  /** Single-model baseline; null to skip it. Defaults to the high tier chief. */
+  baselineModel?: string | null;
+  judgeModel?: string;
+  codeTimeoutMs?: number;
+  listeners?: ARDRListener[];
+  onResult?: (result: EvalItemResult) => void;
+}
+
+const SCORERS: EvalScorer[] = ["exact", "numeric", "code", "judge"];
+
+/**
+ * Reads a JSONL dataset: one `{ "prompt", "reference", "scorer" }` object per line.
+ * Every malformed line is reported at once, with its line number.
+ */
+export function loadDataset(file: string): EvalItem[] {
+  const items: EvalItem[] = [];
+  const issues: string[] = [];
+
+  fs.readFileSync(file, "utf8").split("\n").forEach((line, i) => {
+    if (!line.trim()) return;
+    const at = `${file}:${i + 1}`;
+    let raw: any;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      issues.push(`${at} is not valid JSON`);
+      return;
+    }
+    const scorer: EvalScorer = raw.scorer || "exact";
+    if (typeof raw.prompt !== "string" || !raw.prompt.trim()) issues.push(`${at} needs a "prompt"`);
+    if (!SCORERS.includes(scorer)) issues.push(`${at} scorer must be one of ${SCORERS.join(", ")}`);
+    if (scorer === "code" && typeof raw.tests !== "string") issues.push(`${at} code items need "tests"`);
+    if (scorer !== "code" && raw.reference === undefined) issues.push(`${at} needs a "reference"`);
+
+    items.push({
+      id: raw.id !== undefined ? String(raw.id) : `#${i + 1}`,
+      prompt: raw.prompt,
+      reference: raw.reference !== undefined ? String(raw.reference) : undefined,
+      scorer,
+      tolerance: raw.tolerance,
+      tests: raw.tests,
+      language: raw.language
+    });
+  });
+
+  if (issues.length > 0) throw new Error(`Invalid eval dataset:\n${issues.map(i => `  - ${i}`).join("\n")}`);
+  if (items.length === 0) throw new Error(`${file} contains no eval items`);
+  return items;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[*_`"'.,;:!?()\[\]]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Final answer of a free-form response: an explicit "answer:" line, a \boxed{} value,
+ * or failing those the last non-empty line.
+ */
+export function extractFinalAnswer(response: string): string {
+  const boxed = [...response.matchAll(/\\boxed\{([^}]*)\}/g)].pop();
+  if (boxed) return boxed[1];
+  const answer = [...response.matchAll(/(?:final answer|answer)\s*[:=]\s*(.+)/gi)].pop();
+  if (answer) return answer[1];
+  const lines = response.split("\n").map(l => l.trim()).filter(Boolean);
+  return lines[lines.length - 1] || "";
+}
+
+function parseNumber(text: string): number | null {
+  const matches = text.replace(/(\d),(?=\d{3}\b)/g, "$1").match(/-?\d+(?:\.\d+)?(?:e-?\d+)?/gi);
+  return matches ? parseFloat(matches[matches.length - 1]) : null;
+}
+
+function scoreExact(item: EvalItem, response: string): EvalScore {
+  const reference = normalize(item.reference || "");
+  const candidates = [response, extractFinalAnswer(response)].map(normalize);
+  const correct = candidates.includes(reference);
+  return { correct, score: correct ? 1 : 0, detail: correct ? "exact match" : `expected "${item.reference}"` };
+}
+
+function scoreNumeric(item: EvalItem, response: string): EvalScore {
+  const expected = parseNumber(item.reference || "");
+  const actual = parseNumber(extractFinalAnswer(response)) ?? parseNumber(response);
+  if (expected === null) return { correct: false, score: 0, detail: "reference is not a number" };
+  if (actual === null) return { correct: false, score: 0, detail: "no number in response" };
+  const correct = Math.abs(actual - expected) <= (item.tolerance ?? 1e-6);
+  return { correct, score: correct ? 1 : 0, detail: `got ${actual}, expected ${expected}` };
+}
+
+/**
+ * Runs the response's code block (the first one in the item's language) followed by the
+ * item's assertions in the sandbox; the item passes when the process exits cleanly.
+ * Throws while `settings.enabled` is off, so the item is reported as not scored.
+ */
+async function scoreCode(item: EvalItem, response: string, settings: ExecutionSettings): Promise<EvalScore> {
+  if (!settings.enabled) throw new Error("code execution is disabled, pass --exec to score code items");
+  const language = item.language || "javascript";
+  const blocks = extractCodeBlocks(response, language);
+  const block = blocks.find(b => b.language === language) || blocks[0];
+  if (!block) return { correct: false, score: 0, detail: "no code block in response" };
+
+  const run = await runCode(block.language, `${block.code}\n\n${item.tests}\n`, settings);
+  if (run.skipped) return { correct: false, score: 0, detail: run.skipped };
+  return {
+    correct: run.passed,
+    score: run.passed ? 1 : 0,
+    detail: run.passed ? "tests passed" : summarizeExecution(run)
+  };
+}
+
+interface JudgeOutput {
+  score: number;
+  reason: string;
+}
+
+const JUDGE_SCHEMA: OutputSchema<JudgeOutput> = {
+  name: "judge",
+  fields: {
+    score: { type: "number", min: 0, max: 1, required: true },
+    reason: { type: "string", default: "" }
+  }
+};
+
+async function scoreJudge(item: EvalItem, response: string, model: string, ctx: RunContext): Promise<EvalScore> {
+  const { value } = await callModelJson(
+    JUDGE_SCHEMA,
+    "Judge",
+    model,
+    `You are a strict grader. Compare a response against the reference answer and decide whether it is correct.
+Ignore style and length; judge only whether the substance matches the reference.
+Output JSON: { "score": 0.0-1.0, "reason": "one sentence" }`,
+    `=== QUESTION ===\n${item.prompt}\n\n=== REFERENCE ANSWER ===\n${item.reference}\n\n=== RESPONSE ===\n${response}`,
+    300,
+    ctx,
+    { temperature: 0, stage: "eval" }
+  );
+  if (!value) return { correct: false, score: 0, detail: "judge output invalid" };
+  return { correct: value.score >= 0.5, score: value.score, detail: value.reason };
+}
+
+export async function scoreResponse(
+  item: EvalItem,
+  response: string,
+  options: { judgeModel: string; execution: ExecutionSettings; ctx: RunContext }
+): Promise<EvalScore> {
+  switch (item.scorer) {
+    case "numeric":
+      return scoreNumeric(item, response);
+    case "code":
+      return scoreCode(item, response, options.execution);
+    case "judge":
+      return scoreJudge(item, response, options.judgeModel, options.ctx);
+    default:
+      return scoreExact(item, response);
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Brier score and expected calibration error (5 bins) of `1 - uncertainty` as the
+ * predicted probability that the answer is correct.
+ */
+export function calibration(samples: { uncertainty: number; correct: boolean }[]): { samples: number; brier: number; ece: number } | null {
+  if (samples.length === 0) return null;
+  const brier = samples.reduce((sum, s) => sum + ((1 - s.uncertainty) - (s.correct ? 1 : 0)) ** 2, 0) / samples.length;
+
+  const bins = Array.from({ length: 5 }, () => ({ count: 0, confidence: 0, correct: 0 }));
+  samples.forEach(s => {
+    const confidence = 1 - s.uncertainty;
+    const bin = bins[Math.min(4, Math.floor(confidence * 5))];
+    bin.count++;
+    bin.confidence += confidence;
+    bin.correct += s.correct ? 1 : 0;
+  });
+  const ece = bins.reduce((sum, b) => b.count === 0 ? sum : sum + (b.count / samples.length) * Math.abs(b.confidence / b.count - b.correct / b.count), 0);
+
+  return { samples: samples.length, brier, ece };
+}
+
+export function summarizeSystem(system: string, results: EvalItemResult[]): EvalSystemReport {
+  const latencies = results.map(r => r.latencyMs).sort((a, b) => a - b);
+  const totalCost = results.reduce((sum, r) => sum + r.cost, 0);
+  const calibrated = results
+    .filter((r): r is EvalItemResult & { uncertainty: number } => r.uncertainty !== null && !r.error && !r.scoreError)
+    .map(r => ({ uncertainty: r.uncertainty, correct: r.score.correct }));
+
+  return {
+    system,
+    items: results.length,
+    accuracy: results.filter(r => r.score.correct).length / results.length,
+    meanScore: results.reduce((sum, r) => sum + r.score.score, 0) / results.length,
+    errors: results.filter(r => r.error).length,
+    scoreErrors: results.filter(r => r.scoreError).length,
+    calibration: calibration(calibrated),
+    latency: {
+      meanMs: latencies.reduce((sum, l) => sum + l, 0) / latencies.length,
+      p50Ms: percentile(latencies, 0.5),
+      p95Ms: percentile(latencies, 0.95)
+    },
+    cost: {
+      total: totalCost,
+      perItem: totalCost / results.length,
+      totalTokens: results.reduce((sum, r) => sum + r.totalTokens, 0)
+    }
+  };
+}
+
+async function runBaseline(prompt: string, model: string, ctx: RunContext): Promise<string> {
+  return callModel(
+    model,
+    "You are a helpful AI assistant. Answer the user's request directly and accurately.",
+    prompt,
+    ctx.config.maxTokens.conversation,
+    ctx,
+    { stage: "baseline" }
+  );
+}
+
+/**
+ * Runs every item through each requested tier and the single-model baseline, one call at
+ * a time, and scores the answers. Judge calls are not counted in the systems' cost.
+ */
+export async function runEval(dataset: string, options: EvalOptions = {}): Promise<EvalReport> {
+  const items = loadDataset(dataset);
+  const pipeline = options.ardr?.pipeline || DEFAULT_PIPELINE_CONFIG;
+  // Cached answers would make the later systems look free and instant
+  const ardr = createARDR({ ...options.ardr, cache: options.ardr?.cache ?? false });
+  const tiers = options.tiers || ["high"];
+  const baselineModel = options.baselineModel === undefined ? pipeline.tiers.high.chiefModel : options.baselineModel;
+  const scoring = {
+    judgeModel: options.judgeModel || pipeline.models.cheap,
+    execution: { ...pipeline.execution, timeoutMs: options.codeTimeoutMs ?? pipeline.execution.timeoutMs },
+    ctx: createRunContext({ config: pipeline, emit: event => options.listeners?.forEach(l => l(event)) })
+  };
+
+  const systems: { name: string; run: (item: EvalItem) => Promise<Omit<EvalItemResult, "id" | "system" | "score" | "latencyMs">> }[] = [
+    ...tiers.map(tier => ({
+      name: `ardr-${tier}`,
+      run: async (item: EvalItem) => {
+        const result = await ardr.run(item.prompt, { tier, listeners: options.listeners });
+        return {
+          response: result.finalResponse,
+          uncertainty: result.fastPath ? null : result.state.verification.uncertaintyScore,
+          rawUncertainty: result.fastPath ? null : result.state.verification.uncertainty.raw,
+          cost: result.cost.totalCost,
+          totalTokens: result.usage.totalTokens
+        };
+      }
+    })),
+    ...(baselineModel ? [{
+      name: `baseline (${baselineModel})`,
+      run: async (item: EvalItem) => {
+        const ctx = createRunContext({ config: pipeline, emit: event => options.listeners?.forEach(l => l(event)) });
+        const response = await runBaseline(item.prompt, baselineModel, ctx);
+        const cost = summarizeUsage(ctx.usageRecords);
+        return { response, uncertainty: null, rawUncertainty: null, cost: cost.totalCost, totalTokens: cost.totalTokens };
+      }
+    }] : [])
+  ];
+
+  const startedAt = Date.now();
+  const results: EvalItemResult[] = [];
+  for (const item of items) {
+    for (const system of systems) {
+      const start = Date.now();
+      let result: EvalItemResult;
+      try {
+        const output = await system.run(item);
+        result = { id: item.id, system: system.name, ...output, latencyMs: Date.now() - start, score: { correct: false, score: 0, detail: "not scored" } };
+      } catch (error: any) {
+        result = {
+          id: item.id,
+          system: system.name,
+          response: "",
+          score: { correct: false, score: 0, detail: "run failed" },
+          uncertainty: null,
+          rawUncertainty: null,
+          latencyMs: Date.now() - start,
+          cost: 0,
+          totalTokens: 0,
+          error: error.message
+        };
+      }
+      // A judge or sandbox failure must not cost the run its answer, tokens and cost
+      if (!result.error) {
+        try {
+          result.score = await scoreResponse(item, result.response, scoring);
+        } catch (error: any) {
+          result.score = { correct: false, score: 0, detail: "scoring failed" };
+          result.scoreError = error.message;
+        }
+      }
+      results.push(result);
+      options.onResult?.(result);
+    }
+  }
+
+  return {
+    dataset,
+    startedAt,
+    systems: systems.map(s => summarizeSystem(s.name, results.filter(r => r.system === s.name))),
+    results
+  };
+}
+
+/**
+ * Fits the uncertainty calibration on the pipeline results of one or more saved eval
+ * reports (`eval --out`). Items without a raw score (fast path, baseline, failed runs or scoring,
+ * reports from before raw scores were recorded) are left out.
+ */
+export function fitReportCalibration(reports: EvalReport[]): { calibration: UncertaintyCalibration | null; samples: number } {
+  const points = reports.flatMap(report => report.results)
+    .filter(r => typeof r.rawUncertainty === "number" && !r.error && !r.scoreError)
+    .map(r => ({ raw: r.rawUncertainty as number, correct: r.score.correct }));
+  return { calibration: fitCalibration(points), samples: points.length };
+}
+
+export function formatEvalReport(report: EvalReport): string[] {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  const lines = [
+    `${"system".padEnd(34)} ${"acc".padStart(6)} ${"brier".padStart(6)} ${"ece".padStart(6)} ${"p50".padStart(7)} ${"p95".padStart(7)} ${"cost/item".padStart(10)}`
+  ];
+  report.systems.forEach(s => {
+    lines.push([
+      s.system.slice(0, 34).padEnd(34),
+      pct(s.accuracy).padStart(6),
+      (s.calibration ? s.calibration.brier.toFixed(3) : "-").padStart(6),
+      (s.calibration ? s.calibration.ece.toFixed(3) : "-").padStart(6),
+      `${(s.latency.p50Ms / 1000).toFixed(1)}s`.padStart(7),
+      `${(s.latency.p95Ms / 1000).toFixed(1)}s`.padStart(7),
+      formatCost(s.cost.perItem).padStart(10)
+    ].join(" ") + (s.errors > 0 ? `  (${s.errors} errors)` : "") + (s.scoreErrors > 0 ? `  (${s.scoreErrors} not scored)` : ""));
+  });
+  return lines;
+}
@@ -0,0 +1,198 @@
+import { colors, DEFAULT_PIPELINE_CONFIG } from "./ARDR_models";
+import { ARDREvent, ARDRListener, LogLevel, ModelProvider, PipelineConfig, ResponseCache, RunContext } from "./ARDR_types";
+import { log, logSection } from "./ARDR_utils";
+import { formatCostReport } from "./ARDR_costs";
+
+export interface EventBus {
+  emit(event: ARDREvent): void;
+  subscribe(listener: ARDRListener): () => void;
+  on<T extends ARDREvent["type"]>(type: T, handler: (event: Extract<ARDREvent, { type: T }>) => void): () => void;
+}
+
+export function createEventBus(listeners: ARDRListener[] = []): EventBus {
+  const subscribers = new Set<ARDRListener>(listeners);
+
+  return {
+    emit(event: ARDREvent): void {
+      subscribers.forEach(listener => {
+        try {
+          listener(event);
+        } catch {
+          // A broken subscriber must never take the pipeline down with it
+        }
+      });
+    },
+
+    subscribe(listener: ARDRListener): () => void {
+      subscribers.add(listener);
+      return () => { subscribers.delete(listener); };
+    },
+
+    on(type, handler) {
+      const listener: ARDRListener = event => {
+        if (event.type === type) handler(event as any);
+      };
+      subscribers.add(listener);
+      return () => { subscribers.delete(listener); };
+    }
+  };
+}
+
+export function createRunContext(
+  options: {
+    debug?: boolean;
+    config?: PipelineConfig;
+    emit?: (event: ARDREvent) => void;
+    provider?: ModelProvider;
+    signal?: AbortSignal;
+    deadline?: number;
+    cache?: ResponseCache;
+    bypassCache?: boolean;
+  } = {}
+): RunContext {
+  return {
+    provider: options.provider,
+    signal: options.signal,
+    deadline: options.deadline,
+    cache: options.cache,
+    bypassCache: options.bypassCache,
+    debug: options.debug ?? false,
+    config: options.config || DEFAULT_PIPELINE_CONFIG,
+    emit: options.emit || (() => {}),
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    usageRecords: [],
+    validationFailures: [],
+    degradations: []
+  };
+}
+
+export function emitLog(ctx: RunContext, stage: string, message: string, level: LogLevel = "info"): void {
+  ctx.emit({ type: "log", stage, message, level });
+}
+
+/**
+ * Turns a listener-based run into an async iterator. Events are buffered until consumed;
+ * iteration ends once `done` settles.
+ */
+export function iterateEvents(
+  subscribe: (listener: ARDRListener) => () => void,
+  done: Promise<unknown>
+): AsyncIterable<ARDREvent> {
+  const queue: ARDREvent[] = [];
+  let finished = false;
+  let wake: (() => void) | null = null;
+
+  const unsubscribe = subscribe(event => {
+    queue.push(event);
+    wake?.();
+  });
+
+  done.then(
+    () => { finished = true; unsubscribe(); wake?.(); },
+    () => { finished = true; unsubscribe(); wake?.(); }
+  );
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+          continue;
+        }
+        if (finished) return;
+        await new Promise<void>(resolve => { wake = resolve; });
+        wake = null;
+      }
+    }
+  };
+}
+
+const levelColors: Record<LogLevel, string> = {
+  info: colors.cyan,
+  progress: colors.yellow,
+  success: colors.green,
+  warning: colors.yellow,
+  error: colors.red,
+  retry: colors.magenta
+};
+
+const RESPONSE_RULE = `${colors.bright}${colors.green}═══════════════════════════════════════════════════════════════${colors.reset}`;
+
+/**
+ * The colored terminal output of the CLI, rendered from pipeline events.
+ */
+export const consoleRenderer: ARDRListener = (event) => {
+  switch (event.type) {
+    case "run:start":
+      console.log(`\n${colors.bgMagenta}${colors.white}${colors.bright} ARDR - ${event.tier.toUpperCase()} MODE ${colors.reset}\n`);
+      break;
+    case "stage:start":
+      logSection(event.title);
+      break;
+    case "log":
+      log(event.stage, event.message, levelColors[event.level]);
+      break;
+    case "branch:start":
+      log(event.branch.toUpperCase(), "Processing...", colors.yellow);
+      break;
+    case "branch:done":
+      if (event.output.failed) {
+        log(event.branch.toUpperCase(), `Failed: ${event.output.error}`, colors.red);
+      } else {
+        log(event.branch.toUpperCase(), `Done (confidence: ${event.output.confidence.toFixed(2)})`, colors.green);
+      }
+      break;
+    case "verification:scored": {
+      const v = event.verification;
+      log("Verifier", `Uncertainty: ${v.uncertaintyScore.toFixed(3)} | Counterexamples: ${v.counterexamples.length} | Weak points: ${v.weakPoints.length}`,
+        v.uncertaintyScore > 0.6 ? colors.red : v.uncertaintyScore > 0.4 ? colors.yellow : colors.green);
+      break;
+    }
+    case "reflection:round": {
+      const { round, deltas } = event.round;
+      const revised = deltas.filter(d => d.revised).map(d => d.branch);
+      const published = deltas.reduce((sum, d) => sum + d.publishedArtifacts.length, 0);
+      log("Reflection", `Round ${round}: ${revised.length > 0 ? `revised ${revised.join(", ")}` : "no revisions"}${published > 0 ? ` | ${published} artifacts shared` : ""}`,
+        revised.length > 0 ? colors.yellow : colors.green);
+      break;
+    }
+    case "recurrence:pass":
+      log("Recurrence", `Re-running ${event.branches.length} weak branches: ${event.branches.join(", ")}`, colors.yellow);
+      break;
+    case "debug":
+      console.log(`\n${colors.dim}=== ${event.title} ===${colors.reset}`);
+      event.lines.forEach(line => console.log(line));
+      break;
+    case "synthesis:candidate": {
+      const { index, model, response, error } = event.candidate;
+      log("Synthesizer", `Candidate ${index} (${model}): ${error ? `failed - ${error}` : `${response.length} chars`}`, error ? colors.red : colors.green);
+      break;
+    }
+    case "synthesis:judged": {
+      const { verdict, winner, rejections } = event.judgement;
+      log("Judge", verdict === "merge" ? "Merging the candidates" : `${verdict === "fallback" ? "Judge unavailable, keeping" : "Picked"} candidate ${winner}`, colors.cyan);
+      rejections.forEach(r => log("Judge", `Candidate ${r.candidate} rejected: ${r.reason}`, colors.dim));
+      break;
+    }
+    case "synthesis:start":
+      console.log(`\n${RESPONSE_RULE}`);
+      console.log(`${colors.bright}${colors.green}                       ARDR RESPONSE                          ${colors.reset}`);
+      console.log(`${RESPONSE_RULE}\n`);
+      break;
+    case "synthesis:token":
+      process.stdout.write(event.token);
+      break;
+    case "synthesis:done":
+      console.log();
+      break;
+    case "run:done": {
+      const [summary, ...rows] = formatCostReport(event.cost);
+      log("Cost", `${summary} | ${(event.durationMs / 1000).toFixed(1)}s`, colors.cyan);
+      rows.forEach(row => console.log(`${colors.dim}${row}${colors.reset}`));
+      break;
+    }
+    case "error":
+      log("ERROR", event.message, colors.red);
+      break;
+  }
+};
@@ -0,0 +1,145 @@
+import { BranchOutput, ClaimEdge, ClaimNode, ClaimStatus, EvidenceGraph, EvidenceNode, MathCheck } from "./ARDR_types";
+import { locateClaim } from "./ARDR_math";
+
+export interface GraphInputs {
+  /** Counterexample texts; a leading "C3:" names the claim it disproves. */
+  counterexamples: string[];
+  /** 1-based claim numbers the counterexample generator reported as failed. */
+  failedClaims: number[];
+  /** Consistency scorer links such as "C1 supports C4" or "C2 attacks C5". */
+  links: string[];
+  mathChecks: MathCheck[];
+}
+
+const CLAIM_PREFIX = /^\s*\[?(C\d+)\]?\s*[:\-–]\s*/i;
+const LINK_PATTERN = /\b(C\d+)\b\s+(supports|confirms|agrees with|attacks|contradicts|refutes|disputes)\s+\b(C\d+)\b/i;
+
+/**
+ * Claim nodes in the order stage C numbers the hypotheses: failed branches contribute
+ * none, every other hypothesis becomes C1, C2, ...
+ */
+export function claimNodes(branchOutputs: BranchOutput[]): ClaimNode[] {
+  return branchOutputs.filter(b => !b.failed).flatMap(b => b.hypotheses.map(text => ({ branch: b.branchName, text })))
+    .map((claim, i) => ({ id: `C${i + 1}`, ...claim, status: "unverified" as ClaimStatus }));
+}
+
+/**
+ * Links the claims with the verification evidence and derives each claim's status:
+ * refuted when only attacked (or refuted by exact calculation), supported when only
+ * supported, contested when both, unverified when nothing bears on it.
+ */
+export function buildEvidenceGraph(branchOutputs: BranchOutput[], inputs: GraphInputs): EvidenceGraph {
+  const claims = claimNodes(branchOutputs);
+  const byId = new Map(claims.map(c => [c.id, c]));
+  const evidence: EvidenceNode[] = [];
+  const edges: ClaimEdge[] = [];
+  const addEdge = (edge: ClaimEdge) => {
+    if (byId.has(edge.to) && !edges.some(e => e.from === edge.from && e.to === edge.to)) edges.push(edge);
+  };
+
+  inputs.counterexamples.forEach((text, i) => {
+    const id = `E${i + 1}`;
+    evidence.push({ id, kind: "counterexample", text });
+    const target = text.match(CLAIM_PREFIX)?.[1].toUpperCase();
+    if (target) addEdge({ from: id, to: target, kind: "attacks" });
+  });
+  // Failed claims without a counterexample of their own are attacked by the generator's verdict
+  inputs.failedClaims.forEach(n => {
+    const target = `C${n}`;
+    if (!byId.has(target) || edges.some(e => e.to === target && e.from.startsWith("E"))) return;
+    const id = `E${evidence.length + 1}`;
+    evidence.push({ id, kind: "counterexample", text: `Counterexample generator marked ${target} as failed` });
+    addEdge({ from: id, to: target, kind: "attacks" });
+  });
+
+  // Only links across branches count: a branch agreeing with itself is not evidence
+  inputs.links.forEach(link => {
+    const match = link.match(LINK_PATTERN);
+    if (!match) return;
+    const from = byId.get(match[1].toUpperCase());
+    const to = byId.get(match[3].toUpperCase());
+    if (!from || !to || from.branch === to.branch) return;
+    addEdge({ from: from.id, to: to.id, kind: /supports|confirms|agrees/i.test(match[2]) ? "supports" : "attacks" });
+  });
+
+  const hardRefuted = new Set<string>();
+  inputs.mathChecks.forEach((check, i) => {
+    const candidates = claims.filter(c => c.branch === check.source);
+    const index = locateClaim(check.claim, candidates.map(c => c.text));
+    if (index === -1) return;
+    const id = `M${i + 1}`;
+    evidence.push({ id, kind: "math", text: `${check.claim}: ${check.status} (${check.detail})` });
+    addEdge({ from: id, to: candidates[index].id, kind: check.status === "verified" ? "supports" : "attacks" });
+    if (check.status === "refuted") hardRefuted.add(candidates[index].id);
+  });
+
+  claims.forEach(claim => {
+    const incoming = edges.filter(e => e.to === claim.id);
+    const supported = incoming.some(e => e.kind === "supports");
+    const attacked = incoming.some(e => e.kind === "attacks");
+    claim.status = hardRefuted.has(claim.id) ? "refuted"
+      : supported && attacked ? "contested"
+      : attacked ? "refuted"
+      : supported ? "supported"
+      : "unverified";
+  });
+
+  return { claims, evidence, edges };
+}
+
+export function emptyEvidenceGraph(): EvidenceGraph {
+  return { claims: [], evidence: [], edges: [] };
+}
+
+export function survivingClaims(graph: EvidenceGraph): ClaimNode[] {
+  return graph.claims.filter(c => c.status !== "refuted");
+}
+
+export function summarizeGraph(graph: EvidenceGraph): string {
+  const count = (status: ClaimStatus) => graph.claims.filter(c => c.status === status).length;
+  return `${graph.claims.length} claims: ${count("supported")} supported, ${count("contested")} contested, ${count("refuted")} refuted, ${count("unverified")} unverified`;
+}
+
+const STATUS_COLORS: Record<ClaimStatus, string> = {
+  supported: "#c8e6c9",
+  contested: "#fff3c4",
+  refuted: "#ffcdd2",
+  unverified: "#eeeeee"
+};
+
+function dotLabel(text: string, max: number = 80): string {
+  const short = text.length > max ? `${text.slice(0, max - 1)}…` : text;
+  return JSON.stringify(short.replace(/\s+/g, " "));
+}
+
+/**
+ * Graphviz rendering for review (`dot -Tsvg graph.dot > graph.svg`): claims clustered by
+ * branch and filled by status, evidence as boxes, green support and red attack edges.
+ */
+export function formatGraphDot(graph: EvidenceGraph, title: string = "ARDR evidence graph"): string {
+  const lines = [
+    "digraph evidence {",
+    `  label=${dotLabel(title)};`,
+    "  rankdir=LR;",
+    '  node [shape=ellipse, style=filled, fontname="Helvetica", fontsize=10];'
+  ];
+
+  const branches = Array.from(new Set(graph.claims.map(c => c.branch)));
+  branches.forEach(branch => {
+    lines.push(`  subgraph ${JSON.stringify(`cluster_${branch}`)} {`, `    label=${dotLabel(branch)};`);
+    graph.claims.filter(c => c.branch === branch).forEach(c => {
+      lines.push(`    ${c.id} [label=${dotLabel(`${c.id} (${c.status}): ${c.text}`)}, fillcolor="${STATUS_COLORS[c.status]}"];`);
+    });
+    lines.push("  }");
+  });
+
+  graph.evidence.forEach(e => {
+    lines.push(`  ${e.id} [shape=box, fillcolor="${e.kind === "math" ? "#bbdefb" : "#f5f5f5"}", label=${dotLabel(`${e.id}: ${e.text}`)}];`);
+  });
+  graph.edges.forEach(e => {
+    lines.push(`  ${e.from} -> ${e.to} [color="${e.kind === "supports" ? "#2e7d32" : "#c62828"}", label="${e.kind}"];`);
+  });
+
+  lines.push("}");
+  return lines.join("\n");
+}
@@ -0,0 +1,698 @@
+import { BranchOutput, MathCheck, RunContext, TriStructurePack } from "./ARDR_types";
+import { emitLog } from "./ARDR_events";
+
+/**
+ * Local checker for arithmetic and algebra claims. Numbers are exact rationals (BigInt)
+ * wherever the operation allows it and fall back to floating point only for irrational
+ * results, so `0.1 + 0.2 = 0.3` and `2^100 = 1267650600228229401496703205376` check exactly.
+ */
+
+class MathError extends Error {}
+
+type Value = { kind: "exact"; n: bigint; d: bigint } | { kind: "approx"; v: number };
+
+const MAX_DIGITS = 2000;
+const FLOAT_TOLERANCE = 1e-9;
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+function exact(n: bigint, d: bigint = 1n): Value {
+  if (d === 0n) throw new MathError("division by zero");
+  if (d < 0n) [n, d] = [-n, -d];
+  const g = gcd(n, d) || 1n;
+  n /= g;
+  d /= g;
+  if (n.toString().length > MAX_DIGITS || d.toString().length > MAX_DIGITS) {
+    throw new MathError("number too large to check");
+  }
+  return { kind: "exact", n, d };
+}
+
+function approx(v: number): Value {
+  if (!Number.isFinite(v)) throw new MathError("result is not a finite number");
+  return { kind: "approx", v };
+}
+
+function toNumber(value: Value): number {
+  if (value.kind === "approx") return value.v;
+  const limit = BigInt(Number.MAX_SAFE_INTEGER);
+  if (value.n <= limit && value.n >= -limit && value.d <= limit) return Number(value.n) / Number(value.d);
+  return Number((value.n * 10n ** 20n) / value.d) / 1e20;
+}
+
+function isInteger(value: Value): value is { kind: "exact"; n: bigint; d: bigint } {
+  return value.kind === "exact" && value.d === 1n;
+}
+
+function add(a: Value, b: Value): Value {
+  return a.kind === "exact" && b.kind === "exact" ? exact(a.n * b.d + b.n * a.d, a.d * b.d) : approx(toNumber(a) + toNumber(b));
+}
+
+function negate(a: Value): Value {
+  return a.kind === "exact" ? exact(-a.n, a.d) : approx(-a.v);
+}
+
+function multiply(a: Value, b: Value): Value {
+  return a.kind === "exact" && b.kind === "exact" ? exact(a.n * b.n, a.d * b.d) : approx(toNumber(a) * toNumber(b));
+}
+
+function divide(a: Value, b: Value): Value {
+  if (toNumber(b) === 0 && (b.kind === "approx" || b.n === 0n)) throw new MathError("division by zero");
+  return a.kind === "exact" && b.kind === "exact" ? exact(a.n * b.d, a.d * b.n) : approx(toNumber(a) / toNumber(b));
+}
+
+function integerRoot(n: bigint, k: number): bigint | null {
+  if (n < 0n) return k % 2 === 1 ? (r => r === null ? null : -r)(integerRoot(-n, k)) : null;
+  if (n < 2n) return n;
+  const estimate = Math.round(Math.pow(Number(n), 1 / k));
+  if (!Number.isFinite(estimate)) return null;
+  let x = BigInt(estimate);
+  // Newton steps from the float estimate, then settle on the exact candidate
+  for (let i = 0; i < 100; i++) {
+    const next = ((BigInt(k) - 1n) * x + n / x ** BigInt(k - 1)) / BigInt(k);
+    if (next === x || next === x + 1n || next === x - 1n) { x = next; break; }
+    x = next;
+  }
+  for (const candidate of [x - 1n, x, x + 1n]) {
+    if (candidate >= 0n && candidate ** BigInt(k) === n) return candidate;
+  }
+  return null;
+}
+
+function power(base: Value, exponent: Value): Value {
+  if (base.kind === "exact" && isInteger(exponent)) {
+    const e = exponent.n < 0n ? -exponent.n : exponent.n;
+    const digits = Math.max(base.n.toString().length, base.d.toString().length);
+    if (e <= 10000n && digits * Number(e) <= MAX_DIGITS * 2) {
+      const result = exact(base.n ** e, base.d ** e);
+      return exponent.n < 0n ? divide(exact(1n), result) : result;
+    }
+  }
+  // Rational exponents of perfect powers stay exact: 8^(2/3) = 4
+  if (base.kind === "exact" && exponent.kind === "exact" && exponent.d > 1n && exponent.d <= 10n) {
+    const k = Number(exponent.d);
+    const n = integerRoot(base.n, k);
+    const d = integerRoot(base.d, k);
+    if (n !== null && d !== null) return power(exact(n, d), exact(exponent.n));
+  }
+  const result = Math.pow(toNumber(base), toNumber(exponent));
+  if (Number.isNaN(result)) throw new MathError("power is not a real number");
+  return approx(result);
+}
+
+// Remainder of integers as in modular arithmetic: -7 % 3 = 2. A non-positive modulus is not checked
+function modulo(a: Value, b: Value): Value {
+  if (!isInteger(a) || !isInteger(b)) throw new MathError("modulo needs integers");
+  if (b.n <= 0n) throw new MathError("modulo needs a positive divisor");
+  return exact(((a.n % b.n) + b.n) % b.n);
+}
+
+function factorial(value: Value): Value {
+  if (!isInteger(value) || value.n < 0n || value.n > 1000n) throw new MathError("factorial needs an integer from 0 to 1000");
+  let result = 1n;
+  for (let i = 2n; i <= value.n; i++) result *= i;
+  return exact(result);
+}
+
+function compare(a: Value, b: Value, tolerance: number = 0): number {
+  if (a.kind === "exact" && b.kind === "exact" && tolerance === 0) {
+    const diff = a.n * b.d - b.n * a.d;
+    return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  const allowed = Math.max(tolerance, FLOAT_TOLERANCE * Math.max(1, Math.abs(x), Math.abs(y)));
+  return Math.abs(x - y) <= allowed ? 0 : x < y ? -1 : 1;
+}
+
+function formatValue(value: Value): string {
+  if (value.kind === "approx") return String(Number(value.v.toPrecision(12)));
+  const decimal = String(Number(toNumber(value).toPrecision(12)));
+  if (value.d !== 1n) return `${value.n}/${value.d}`.length <= 20 ? `${value.n}/${value.d} (${decimal})` : decimal;
+  const text = value.n.toString();
+  return text.length <= 40 ? text : `${decimal} (${text.length} digits)`;
+}
+
+type Node =
+  | { type: "num"; value: Value; decimals: number }
+  | { type: "var"; name: string }
+  | { type: "neg"; arg: Node }
+  | { type: "op"; op: "+" | "-" | "*" | "/" | "%" | "^"; left: Node; right: Node }
+  | { type: "call"; name: string; args: Node[] }
+  | { type: "fact"; arg: Node };
+
+const FUNCTIONS: Record<string, (args: Value[]) => Value> = {
+  sqrt: ([x]) => power(x, exact(1n, 2n)),
+  cbrt: ([x]) => power(x, exact(1n, 3n)),
+  abs: ([x]) => compare(x, exact(0n)) < 0 ? negate(x) : x,
+  floor: ([x]) => x.kind === "exact" ? exact(x.n / x.d - (x.n < 0n && x.n % x.d !== 0n ? 1n : 0n)) : approx(Math.floor(x.v)),
+  ceil: ([x]) => negate(FUNCTIONS.floor([negate(x)])),
+  round: ([x]) => FUNCTIONS.floor([add(x, exact(1n, 2n))]),
+  exp: ([x]) => approx(Math.exp(toNumber(x))),
+  ln: ([x]) => approx(Math.log(toNumber(x))),
+  log: ([x, base]) => approx(Math.log(toNumber(x)) / Math.log(base ? toNumber(base) : 10)),
+  log2: ([x]) => approx(Math.log2(toNumber(x))),
+  sin: ([x]) => approx(Math.sin(toNumber(x))),
+  cos: ([x]) => approx(Math.cos(toNumber(x))),
+  tan: ([x]) => approx(Math.tan(toNumber(x))),
+  min: args => args.reduce((a, b) => compare(a, b) <= 0 ? a : b),
+  max: args => args.reduce((a, b) => compare(a, b) >= 0 ? a : b),
+  gcd: args => {
+    if (!args.every(isInteger)) throw new MathError("gcd needs integers");
+    return exact(args.map(a => (a as { n: bigint }).n).reduce(gcd));
+  },
+  lcm: args => {
+    if (!args.every(isInteger)) throw new MathError("lcm needs integers");
+    const lcm = (a: bigint, b: bigint) => (a === 0n || b === 0n ? 0n : (a * b < 0n ? -a * b : a * b) / gcd(a, b));
+    return exact(args.map(a => (a as { n: bigint }).n).reduce(lcm));
+  }
+};
+
+// Arguments a function takes when not one; min, max, gcd and lcm take any number
+const MAX_ARGUMENTS: Record<string, number> = { log: 2, min: Infinity, max: Infinity, gcd: Infinity, lcm: Infinity };
+
+const CONSTANTS: Record<string, Value> = {
+  pi: approx(Math.PI),
+  e: approx(Math.E)
+};
+
+const MATH_NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)];
+
+type Token = { type: "num"; text: string } | { type: "name"; text: string } | { type: "sym"; text: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+)|([A-Za-z]+)|(\*\*|[-+*/^()!%,]))/y;
+  let index = 0;
+  while (index < source.length) {
+    if (!source.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) throw new MathError(`unexpected "${source[index]}"`);
+    index = pattern.lastIndex;
+    if (match[1]) {
+      tokens.push({ type: "num", text: match[1] });
+    } else if (match[2]) {
+      // Known names stay whole; anything else is a product of one-letter variables (3xy)
+      const name = match[2];
+      if (MATH_NAMES.includes(name.toLowerCase())) tokens.push({ type: "name", text: name.toLowerCase() });
+      else name.split("").forEach(letter => tokens.push({ type: "name", text: letter }));
+    } else {
+      tokens.push({ type: "sym", text: match[3] === "**" ? "^" : match[3] });
+    }
+  }
+  return tokens;
+}
+
+function parseNumberLiteral(text: string): Node {
+  const [mantissa, exponentText] = text.toLowerCase().split("e");
+  const [whole, fraction = ""] = mantissa.split(".");
+  let value = exact(BigInt((whole || "0") + fraction), 10n ** BigInt(fraction.length));
+  if (exponentText !== undefined) value = multiply(value, power(exact(10n), exact(BigInt(exponentText))));
+  return { type: "num", value, decimals: exponentText === undefined ? fraction.length : 0 };
+}
+
+/**
+ * Recursive-descent parser: + - * / ^ (right-associative), unary minus, postfix ! and %,
+ * function calls, and implicit multiplication (2x, 3(x + 1), (a)(b)). A `%` followed by
+ * an operand is modulo (10 % 3), otherwise percent (15%).
+ */
+function parseExpression(source: string): Node {
+  const tokens = tokenize(source);
+  let position = 0;
+  const peek = () => tokens[position];
+  const isSym = (text: string) => peek()?.type === "sym" && peek().text === text;
+  const expect = (text: string) => {
+    if (!isSym(text)) throw new MathError(`expected "${text}"`);
+    position++;
+  };
+
+  const startsPrimary = (token: Token | undefined = peek()) =>
+    !!token && (token.type !== "sym" || token.text === "(");
+  const isModulo = () => isSym("%") && startsPrimary(tokens[position + 1]);
+
+  function expression(): Node {
+    let node = term();
+    while (isSym("+") || isSym("-")) {
+      const op = tokens[position++].text as "+" | "-";
+      node = { type: "op", op, left: node, right: term() };
+    }
+    return node;
+  }
+
+  function term(): Node {
+    let node = unary();
+    while (isSym("*") || isSym("/") || isModulo() || startsPrimary()) {
+      const op = isSym("*") || isSym("/") || isSym("%") ? tokens[position++].text as "*" | "/" | "%" : "*";
+      node = { type: "op", op, left: node, right: unary() };
+    }
+    return node;
+  }
+
+  function unary(): Node {
+    if (isSym("-")) {
+      position++;
+      return { type: "neg", arg: unary() };
+    }
+    if (isSym("+")) {
+      position++;
+      return unary();
+    }
+    return powerExpression();
+  }
+
+  function powerExpression(): Node {
+    const base = postfix();
+    if (isSym("^")) {
+      position++;
+      return { type: "op", op: "^", left: base, right: unary() };
+    }
+    return base;
+  }
+
+  function postfix(): Node {
+    let node = primary();
+    while (isSym("!") || (isSym("%") && !isModulo())) {
+      node = tokens[position++].text === "!"
+        ? { type: "fact", arg: node }
+        : { type: "op", op: "/", left: node, right: { type: "num", value: exact(100n), decimals: 0 } };
+    }
+    return node;
+  }
+
+  function primary(): Node {
+    const token = tokens[position++];
+    if (!token) throw new MathError("unexpected end of expression");
+    if (token.type === "num") return parseNumberLiteral(token.text);
+    if (token.type === "name") {
+      if (FUNCTIONS[token.text] && isSym("(")) {
+        position++;
+        const args = [expression()];
+        while (isSym(",")) {
+          position++;
+          args.push(expression());
+        }
+        expect(")");
+        return { type: "call", name: token.text, args };
+      }
+      return { type: "var", name: token.text };
+    }
+    if (token.text === "(") {
+      const node = expression();
+      expect(")");
+      return node;
+    }
+    throw new MathError(`unexpected "${token.text}"`);
+  }
+
+  const node = expression();
+  if (position < tokens.length) throw new MathError(`unexpected "${tokens[position].text}"`);
+  return node;
+}
+
+function evaluate(node: Node, bindings: Map<string, Value>): Value {
+  switch (node.type) {
+    case "num":
+      return node.value;
+    case "var": {
+      const bound = bindings.get(node.name);
+      if (bound) return bound;
+      if (CONSTANTS[node.name]) return CONSTANTS[node.name];
+      throw new MathError(`${node.name} is unknown`);
+    }
+    case "neg":
+      return negate(evaluate(node.arg, bindings));
+    case "fact":
+      return factorial(evaluate(node.arg, bindings));
+    case "call":
+      // sqrt(1,024) is a number with a separator, not two arguments, so it is not checked
+      if (node.args.length > (MAX_ARGUMENTS[node.name] ?? 1)) throw new MathError(`too many arguments for ${node.name}`);
+      return FUNCTIONS[node.name](node.args.map(arg => evaluate(arg, bindings)));
+    case "op": {
+      const left = evaluate(node.left, bindings);
+      const right = evaluate(node.right, bindings);
+      switch (node.op) {
+        case "+": return add(left, right);
+        case "-": return add(left, negate(right));
+        case "*": return multiply(left, right);
+        case "/": return divide(left, right);
+        case "%": return modulo(left, right);
+        case "^": return power(left, right);
+      }
+    }
+  }
+}
+
+function variables(node: Node, found: Set<string> = new Set()): Set<string> {
+  if (node.type === "var" && !CONSTANTS[node.name]) found.add(node.name);
+  if (node.type === "neg" || node.type === "fact") variables(node.arg, found);
+  if (node.type === "op") { variables(node.left, found); variables(node.right, found); }
+  if (node.type === "call") node.args.forEach(arg => variables(arg, found));
+  return found;
+}
+
+// Polynomials with exact coefficients, keyed by monomial ("x^2*y"); "" is the constant term
+type Polynomial = Map<string, Value>;
+
+function monomialKey(powers: Map<string, number>): string {
+  return Array.from(powers.entries()).filter(([, p]) => p > 0).sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, p]) => p === 1 ? name : `${name}^${p}`).join("*");
+}
+
+function parseMonomial(key: string): Map<string, number> {
+  return new Map(key ? key.split("*").map(part => {
+    const [name, p] = part.split("^");
+    return [name, p ? parseInt(p, 10) : 1] as [string, number];
+  }) : []);
+}
+
+function addPolynomials(a: Polynomial, b: Polynomial, sign: Value = exact(1n)): Polynomial {
+  const result = new Map(a);
+  b.forEach((coefficient, key) => {
+    const sum = add(result.get(key) || exact(0n), multiply(coefficient, sign));
+    if (compare(sum, exact(0n)) === 0) result.delete(key);
+    else result.set(key, sum);
+  });
+  return result;
+}
+
+function multiplyPolynomials(a: Polynomial, b: Polynomial): Polynomial {
+  let result: Polynomial = new Map();
+  a.forEach((ca, ka) => b.forEach((cb, kb) => {
+    const powers = parseMonomial(ka);
+    parseMonomial(kb).forEach((p, name) => powers.set(name, (powers.get(name) || 0) + p));
+    result = addPolynomials(result, new Map([[monomialKey(powers), multiply(ca, cb)]]));
+  }));
+  if (result.size > 500) throw new MathError("expression too large to expand");
+  return result;
+}
+
+/**
+ * Expands an expression into a polynomial when it is one (exact coefficients, integer
+ * powers, division by constants only); null otherwise.
+ */
+function toPolynomial(node: Node): Polynomial | null {
+  const constant = (value: Value): Polynomial | null =>
+    value.kind !== "exact" ? null : compare(value, exact(0n)) === 0 ? new Map() : new Map([["", value]]);
+
+  if (variables(node).size === 0) {
+    try {
+      return constant(evaluate(node, new Map()));
+    } catch {
+      return null;
+    }
+  }
+  switch (node.type) {
+    case "var":
+      return new Map([[node.name, exact(1n)]]);
+    case "neg": {
+      const inner = toPolynomial(node.arg);
+      return inner && addPolynomials(new Map(), inner, exact(-1n));
+    }
+    case "op": {
+      const left = toPolynomial(node.left);
+      const right = toPolynomial(node.right);
+      if (!left || !right) return null;
+      if (node.op === "+") return addPolynomials(left, right);
+      if (node.op === "-") return addPolynomials(left, right, exact(-1n));
+      if (node.op === "*") return multiplyPolynomials(left, right);
+      if (node.op === "%") return null;
+      const rightConstant = right.size === 0 ? exact(0n) : right.size === 1 ? right.get("") : undefined;
+      if (node.op === "/") {
+        if (!rightConstant || compare(rightConstant, exact(0n)) === 0) return null;
+        return multiplyPolynomials(left, new Map([["", divide(exact(1n), rightConstant)]]));
+      }
+      if (!rightConstant || !isInteger(rightConstant) || rightConstant.n < 0n || rightConstant.n > 12n) return null;
+      let result: Polynomial = new Map([["", exact(1n)]]);
+      for (let i = 0n; i < rightConstant.n; i++) result = multiplyPolynomials(result, left);
+      return result;
+    }
+    default:
+      return null;
+  }
+}
+
+type Relation = "=" | "!=" | "<" | ">" | "<=" | ">=" | "≈";
+
+const RELATION_PATTERN = /(==|!=|<=|>=|=|<|>|≈)/;
+
+function holds(relation: Relation, left: Value, right: Value, tolerance: number): boolean {
+  const order = compare(left, right, tolerance);
+  switch (relation) {
+    case "=": case "≈": return order === 0;
+    case "!=": return order !== 0;
+    case "<": return order < 0;
+    case ">": return order > 0;
+    case "<=": return order <= 0;
+    case ">=": return order >= 0;
+  }
+}
+
+// A side written as a rounded decimal ("1/3 = 0.333") is held to its stated precision
+function statedTolerance(relation: Relation, left: Node, right: Node, leftValue: Value, rightValue: Value): number {
+  const decimals = [left, right].filter((n): n is Extract<Node, { type: "num" }> => n.type === "num").map(n => n.decimals);
+  if (relation === "≈") {
+    const stated = decimals.length > 0 ? 0.5 * 10 ** -Math.min(...decimals) : 0;
+    return Math.max(stated, 0.01 * Math.max(Math.abs(toNumber(leftValue)), Math.abs(toNumber(rightValue))));
+  }
+  const rounded = decimals.filter(d => d > 0);
+  return rounded.length > 0 ? 0.5 * 10 ** -Math.min(...rounded) * (1 + 1e-9) : 0;
+}
+
+interface Claim {
+  text: string;
+  relation: Relation;
+  left: Node;
+  right: Node;
+}
+
+function normalizeText(text: string): string {
+  const calls: boolean[] = [];
+  return text
+    .replace(/[×·∙]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/[−–]/g, "-")
+    .replace(/≤/g, "<=")
+    .replace(/≥/g, ">=")
+    .replace(/≠/g, "!=")
+    .replace(/π/g, "pi")
+    .replace(/√\s*\(/g, "sqrt(")
+    .replace(/√\s*(\d+(?:\.\d+)?|[a-z])/g, "sqrt($1)")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/([A-Za-z]\s*)?\(|\)|(\d),(?=\d{3}\b)/g, (match, name: string | undefined, digit: string | undefined) => {
+      // Thousands separators only outside function calls, where a comma separates arguments
+      if (match.endsWith("(")) calls.push(name !== undefined);
+      else if (match === ")") calls.pop();
+      else if (!calls.includes(true)) return digit as string;
+      return match;
+    });
+}
+
+// Prose words (two letters or more that are not function names) and punctuation end a formula
+const WORD_PATTERN = new RegExp(`\\b(?!(?:${MATH_NAMES.join("|")})\\b)[A-Za-z]{2,}\\b`, "gi");
+
+// Words that are themselves arithmetic ("15% of 200 = 30"): the formulas on both sides are
+// incomplete, so neither is checked
+const OPERATOR_WORDS = /\b(?:of|times|plus|minus|over|divided|by|per|mod|modulo|squared|cubed|percent)\b/gi;
+
+function fragments(text: string): string[] {
+  const masked = normalizeText(text).replace(OPERATOR_WORDS, "\u0001").replace(WORD_PATTERN, "\u0000");
+  const result: string[] = [];
+  let current = "";
+  let depth = 0;
+  let poisoned = false;
+  const end = (poisonNext: boolean) => {
+    if (!poisoned && !poisonNext) result.push(current);
+    current = "";
+    depth = 0;
+    poisoned = poisonNext;
+  };
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+    const sentenceEnd = char === "." && !/\d/.test(masked[i + 1] || "");
+    if (char === "\u0001") {
+      end(true);
+    } else if (/[\u0000;:?\n\r{}\[\]"`'$\\|]/.test(char) || sentenceEnd || (char === "," && depth === 0)) {
+      end(false);
+    } else {
+      current += char;
+    }
+  }
+  end(false);
+  return result.map(f => f.trim().replace(/^[*/^=<>]+|[-+*/^=<>]+$/g, "").trim()).filter(f => /\d/.test(f) && RELATION_PATTERN.test(f));
+}
+
+/**
+ * Equations and inequalities stated in free text. A chain `a = b = c` yields two claims;
+ * fragments that do not parse as formulas are ignored.
+ */
+function extractClaims(text: string): Claim[] {
+  const claims: Claim[] = [];
+  fragments(text).forEach(fragment => {
+    if (fragment.length > 200) return;
+    const parts = fragment.split(RELATION_PATTERN).map(p => p.trim());
+    try {
+      const sides = parts.filter((_, i) => i % 2 === 0).map(parseExpression);
+      for (let i = 0; i + 1 < sides.length; i++) {
+        const relation = (parts[2 * i + 1] === "==" ? "=" : parts[2 * i + 1]) as Relation;
+        claims.push({ text: `${parts[2 * i]} ${relation} ${parts[2 * i + 2]}`, relation, left: sides[i], right: sides[i + 1] });
+      }
+    } catch (error) {
+      if (!(error instanceof MathError)) throw error;
+    }
+  });
+  return claims;
+}
+
+/**
+ * Index of the text a checked claim was taken from (claims are reported in normalized
+ * form), or -1.
+ */
+export function locateClaim(claim: string, texts: string[]): number {
+  const compact = (text: string) => normalizeText(text).replace(/==/g, "=").replace(/\s+/g, "");
+  const target = compact(claim);
+  return texts.findIndex(text => compact(text).includes(target));
+}
+
+const SAMPLE_POINTS = [0.37, 1.3, -2.1, 2.7, 0.61, -0.83];
+
+type Outcome = Pick<MathCheck, "status" | "method" | "detail"> | null;
+
+function checkConstant(claim: Claim, bindings: Map<string, Value>): Outcome {
+  const left = evaluate(claim.left, bindings);
+  const right = evaluate(claim.right, bindings);
+  const both = `left side is ${formatValue(left)}, right side is ${formatValue(right)}`;
+  if (left.kind === "exact" && right.kind === "exact" && holds(claim.relation, left, right, 0)) {
+    return { status: "verified", method: "exact", detail: claim.relation === "=" ? `both sides equal ${formatValue(left)}` : both };
+  }
+  const tolerance = statedTolerance(claim.relation, claim.left, claim.right, left, right);
+  if (holds(claim.relation, left, right, tolerance)) {
+    return { status: "verified", method: "numeric", detail: tolerance > 0 ? `${both}, equal to the stated precision` : both };
+  }
+  return { status: "refuted", method: left.kind === "exact" && right.kind === "exact" ? "exact" : "numeric", detail: both };
+}
+
+// With free variables only identities are claims; an equation to be solved is not refuted
+function checkIdentity(claim: Claim, names: string[]): Outcome {
+  if (claim.relation !== "=") return null;
+  const left = toPolynomial(claim.left);
+  const right = toPolynomial(claim.right);
+  if (left && right) {
+    return addPolynomials(left, right, exact(-1n)).size === 0
+      ? { status: "verified", method: "symbolic", detail: "identity holds after expansion" }
+      : null;
+  }
+
+  let checked = 0;
+  for (let i = 0; i < SAMPLE_POINTS.length; i++) {
+    const bindings = new Map(names.map((name, j) => [name, approx(SAMPLE_POINTS[(i + j) % SAMPLE_POINTS.length])]));
+    try {
+      if (compare(evaluate(claim.left, bindings), evaluate(claim.right, bindings)) !== 0) return null;
+      checked++;
+    } catch (error) {
+      if (!(error instanceof MathError)) throw error;
+    }
+  }
+  return checked >= 3 ? { status: "verified", method: "numeric", detail: `identity holds at ${checked} sample points` } : null;
+}
+
+function isBinding(claim: Claim): boolean {
+  return claim.relation === "=" && claim.left.type === "var" && !CONSTANTS[claim.left.name] && variables(claim.right).size === 0;
+}
+
+/**
+ * Evaluates a constant expression such as `2^64 - 1` or `sqrt(2) * pi`, exactly where
+ * possible. Throws on a syntax error, an unknown name or an undefined result.
+ */
+export function evaluateExpression(expression: string): string {
+  try {
+    return formatValue(evaluate(parseExpression(normalizeText(expression)), new Map()));
+  } catch (error) {
+    if (error instanceof MathError) throw new Error(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Checks the claims of one text. Statements like `x = 4` are read as the text's answer
+ * for x and substituted into its other claims (every value must satisfy an equation in
+ * that single variable, as with the roots of a quadratic).
+ */
+export function checkText(text: string, source: string, maxClaims: number = 20): MathCheck[] {
+  const claims = extractClaims(text).slice(0, maxClaims);
+  const bindings = new Map<string, Value[]>();
+  claims.filter(isBinding).forEach(claim => {
+    try {
+      const value = evaluate(claim.right, new Map());
+      const name = (claim.left as { name: string }).name;
+      const values = bindings.get(name) || [];
+      if (!values.some(v => compare(v, value) === 0)) bindings.set(name, [...values, value]);
+    } catch (error) {
+      if (!(error instanceof MathError)) throw error;
+    }
+  });
+
+  const checks: MathCheck[] = [];
+  claims.filter(claim => !isBinding(claim)).forEach(claim => {
+    const names = Array.from(new Set([...variables(claim.left), ...variables(claim.right)]));
+    let outcome: Outcome = null;
+    try {
+      if (names.length === 0) {
+        outcome = checkConstant(claim, new Map());
+      } else if (names.every(name => bindings.has(name))) {
+        const multiValued = names.filter(name => bindings.get(name)!.length > 1);
+        if (multiValued.length === 0 || names.length === 1) {
+          for (const value of bindings.get(names[0])!.slice(0, multiValued.length > 0 ? undefined : 1)) {
+            const assignment = new Map(names.map(name => [name, name === names[0] ? value : bindings.get(name)![0]]));
+            const result = checkConstant(claim, assignment);
+            const given = names.map(name => `${name} = ${formatValue(assignment.get(name)!)}`).join(", ");
+            outcome = result && { ...result, detail: `with ${given}: ${result.detail}` };
+            if (outcome?.status === "refuted") break;
+          }
+        }
+      } else if (!names.some(name => bindings.has(name))) {
+        outcome = checkIdentity(claim, names);
+      }
+    } catch (error) {
+      if (!(error instanceof MathError)) throw error;
+      // 1/0 = 5 is a false claim; an undefined expression elsewhere is just unchecked
+      if (names.length === 0 && error.message === "division by zero") {
+        outcome = { status: "refuted", method: "exact", detail: "division by zero" };
+      }
+    }
+    if (outcome) checks.push({ source, claim: claim.text, ...outcome });
+  });
+  return checks;
+}
+
+/**
+ * Runs the checker over branch hypotheses and the Formalizer output when the task type
+ * is configured for it.
+ */
+export function checkMathClaims(
+  taskType: string,
+  triPack: TriStructurePack,
+  branchOutputs: BranchOutput[],
+  ctx: RunContext
+): MathCheck[] {
+  const settings = ctx.config.math;
+  if (!settings.enabled || !settings.taskTypes.includes(taskType)) return [];
+
+  const checks = [
+    ...branchOutputs.filter(b => !b.failed).flatMap(b => checkText(b.hypotheses.join("\n"), b.branchName, settings.maxClaims)),
+    ...checkText(triPack.formal, "formalizer", settings.maxClaims)
+  ];
+  if (checks.length > 0) {
+    const refuted = checks.filter(c => c.status === "refuted").length;
+    emitLog(ctx, "Math", `Checked ${checks.length} claims: ${checks.length - refuted} verified, ${refuted} refuted`, refuted > 0 ? "warning" : "success");
+  }
+  return checks;
+}
@@ -0,0 +1,421 @@
+import { randomUUID } from "crypto";
+import {
+  NexusTier,
+  ARDRState,
+  Attachment,
+  CostReport,
+  ARDREvent,
+  ARDRListener,
+  ModelProvider,
+  PipelineConfig,
+  ResponseCache,
+  RunContext,
+  Session,
+  StageName,
+  TokenUsage,
+  VerificationResult
+} from "./ARDR_types";
+import { initializeOpenAI, ModelCallError, RunCancelledError, throwIfCancelled } from "./ARDR_utils";
+import { EventBus, createEventBus, createRunContext, emitLog, iterateEvents } from "./ARDR_events";
+import { registerProvider, routeModels } from "./ARDR_providers";
+import { addSessionUsage, addTurn, compactSession, formatTranscript, withConversation } from "./ARDR_session";
+import { summarizeUsage } from "./ARDR_costs";
+import {
+  ReplaySearchStats,
+  ReplayStats,
+  TraceWriter,
+  createReplayIndex,
+  createReplayProvider,
+  createTraceWriter,
+  loadTrace,
+  LoadedTrace,
+  traceFileName
+} from "./ARDR_trace";
+import { ConfigError, applyOverride, mergeConfig, validatePipelineConfig } from "./ARDR_config";
+import { DEFAULT_PIPELINE_CONFIG } from "./ARDR_models";
+import { emptyEvidenceGraph } from "./ARDR_graph";
+import { openResponseCache } from "./ARDR_cache";
+import { openRetrievalIndex } from "./ARDR_retrieval";
+import { buildAttachmentContext, withAttachments } from "./ARDR_attachments";
+import {
+  stage0_TaskProfiler,
+  stageA_StructuredDecomposition,
+  stageB_DendriticBranches,
+  stageC_Verification,
+  stageD_AdaptiveRecurrence,
+  stageFinal_GrandSynthesis,
+  handleConversation
+} from "./ARDR_stages";
+
+export interface ARDRConfig {
+  apiKey?: string;
+  providers?: ModelProvider[];
+  defaultProvider?: string;
+  routes?: Record<string, string>;
+  tier?: NexusTier;
+  debug?: boolean;
+  listeners?: ARDRListener[];
+  pipeline?: PipelineConfig;
+  /** Directory that receives one JSONL trace per run (see ARDR_trace). */
+  traceDir?: string;
+  /** Directory of the on-disk response cache; without one the cache is memory only. */
+  cacheDir?: string;
+  /** A cache to share with other instances, or false for none; overrides `pipeline.cache`. */
+  cache?: ResponseCache | false;
+}
+
+export interface RunOptions {
+  tier?: NexusTier;
+  debug?: boolean;
+  listeners?: ARDRListener[];
+  session?: Session;
+  /** Hard spend cap in USD for this run; overrides `pipeline.maxRunCost`. */
+  maxCost?: number;
+  /** Aborting it cancels the run, which then rejects with RunCancelledError. */
+  signal?: AbortSignal;
+  /** Wall-clock budget for this run; overrides `pipeline.deadline.runMs` (0 for none). */
+  deadlineMs?: number;
+  /** Answer every call fresh instead of from the response cache (the answers are still stored). */
+  bypassCache?: boolean;
+  /** Files every stage sees alongside the prompt (see loadAttachments). */
+  attachments?: Attachment[];
+  /** Replaces the instance's pipeline config for this run; the response cache stays the instance's. */
+  pipeline?: PipelineConfig;
+}
+
+export interface RunTiming {
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  stages: Record<string, number>;
+}
+
+export interface ARDRRunResult {
+  state: ARDRState;
+  finalResponse: string;
+  fastPath: boolean;
+  timing: RunTiming;
+  usage: TokenUsage;
+  cost: CostReport;
+  tracePath?: string;
+}
+
+export interface ARDRRunStream extends AsyncIterable<ARDREvent> {
+  result: Promise<ARDRRunResult>;
+}
+
+export interface ARDRInstance {
+  /** The response cache every run of this instance goes through, if caching is on. */
+  cache?: ResponseCache;
+  run(prompt: string, options?: RunOptions): Promise<ARDRRunResult>;
+  stream(prompt: string, options?: RunOptions): ARDRRunStream;
+  subscribe(listener: ARDRListener): () => void;
+}
+
+export function emptyVerification(): VerificationResult {
+  return {
+    branchScores: new Map(),
+    counterexamples: [],
+    contradictions: [],
+    provenInvariants: [],
+    uncertaintyScore: 0,
+    weakPoints: [],
+    execution: [],
+    mathChecks: [],
+    graph: emptyEvidenceGraph(),
+    uncertainty: {
+      signals: { verifier: null, confidence: null, samples: null, branches: null, claims: null, checks: null },
+      raw: 0,
+      calibrated: false
+    }
+  };
+}
+
+export function createInitialState(prompt: string, tier: NexusTier, conversation: string = ""): ARDRState {
+  return {
+    originalPrompt: prompt,
+    conversation,
+    tier,
+    budget: null as any,
+    triPack: { symbolic: "", invariants: "", formal: "" },
+    scratchpad: { entries: [], sharedArtifacts: new Map(), reflections: [] },
+    branchOutputs: [],
+    verification: emptyVerification(),
+    recurrenceCount: 0,
+    finalResponse: "",
+    validationFailures: [],
+    degradations: []
+  };
+}
+
+/**
+ * Runs the full stage 0 → final pipeline for one prompt. Progress is only reported
+ * through `ctx.emit`, so a context without listeners produces no output at all.
+ */
+export async function runARDR(
+  prompt: string,
+  tier: NexusTier,
+  ctx: RunContext,
+  conversation: string = "",
+  attachments: Attachment[] = []
+): Promise<ARDRRunResult> {
+  const startedAt = Date.now();
+  const stageTimes: Record<string, number> = {};
+
+  const timed = async <T>(stage: StageName, fn: () => Promise<T>): Promise<T> => {
+    throwIfCancelled(ctx);
+    const start = Date.now();
+    try {
+      return await fn();
+    } finally {
+      const durationMs = Date.now() - start;
+      stageTimes[stage] = (stageTimes[stage] || 0) + durationMs;
+      ctx.emit({ type: "stage:end", stage, durationMs });
+    }
+  };
+
+  const finish = (state: ARDRState, fastPath: boolean): ARDRRunResult => {
+    const finishedAt = Date.now();
+    const cost = summarizeUsage(ctx.usageRecords);
+    ctx.emit({ type: "run:done", durationMs: finishedAt - startedAt, usage: { ...ctx.usage }, cost });
+    return {
+      state,
+      finalResponse: state.finalResponse,
+      fastPath,
+      timing: { startedAt, finishedAt, durationMs: finishedAt - startedAt, stages: stageTimes },
+      usage: { ...ctx.usage },
+      cost
+    };
+  };
+
+  ctx.emit({ type: "run:start", prompt, tier });
+
+  const state = createInitialState(prompt, tier, conversation);
+  state.validationFailures = ctx.validationFailures;
+  state.degradations = ctx.degradations;
+  // Attached files travel with the prompt through every stage
+  const { context, files } = await buildAttachmentContext(attachments, prompt, ctx);
+  if (files.length > 0) state.attachments = files;
+  const taskPrompt = withAttachments(prompt, context);
+  // Profiler, decomposition and the conversational fast path see the prior turns;
+  // branches work from the tri-structure pack and the synthesizer gets them via the ledger
+  const contextualPrompt = withConversation(taskPrompt, conversation);
+
+  state.budget = await timed("profiler", () => stage0_TaskProfiler(contextualPrompt, tier, ctx));
+
+  if (state.budget.taskType === "conversation" || state.budget.branches.length === 0) {
+    emitLog(ctx, "Profiler", "Detected conversational input - using fast path", "success");
+    state.finalResponse = await timed("synthesis", () => handleConversation(contextualPrompt, tier, ctx));
+    return finish(state, true);
+  }
+
+  state.triPack = await timed("decomposition", () => stageA_StructuredDecomposition(contextualPrompt, state.budget, ctx));
+
+  state.branchOutputs = await timed("branches", () => stageB_DendriticBranches(
+    taskPrompt, state.triPack, state.budget, state.scratchpad, ctx
+  ));
+
+  state.verification = await timed("verification", () => stageC_Verification(
+    taskPrompt, state.triPack, state.branchOutputs, state.scratchpad, state.budget, ctx
+  ));
+
+  let shouldContinue = true;
+  while (shouldContinue && state.recurrenceCount < state.budget.allowedDepth) {
+    const recurrenceResult = await timed("recurrence", () => stageD_AdaptiveRecurrence(
+      taskPrompt, state.triPack, state.branchOutputs, state.scratchpad,
+      state.verification, state.budget, state.recurrenceCount, ctx
+    ));
+
+    state.branchOutputs = recurrenceResult.updatedBranches;
+
+    if (recurrenceResult.shouldRecur) {
+      state.recurrenceCount++;
+      state.verification = await timed("verification", () => stageC_Verification(
+        taskPrompt, state.triPack, state.branchOutputs, state.scratchpad, state.budget, ctx
+      ));
+    } else {
+      shouldContinue = false;
+    }
+  }
+
+  state.finalResponse = await timed("synthesis", () => stageFinal_GrandSynthesis(taskPrompt, state, ctx));
+
+  return finish(state, false);
+}
+
+/**
+ * Gives the run its document library when `retrieval.enabled`. A missing directory is a
+ * warning, not a failure: the branches then answer from the model alone. Returns whether
+ * the library is attached.
+ */
+async function attachRetrieval(ctx: RunContext, report: boolean): Promise<boolean> {
+  if (!ctx.config.retrieval.enabled) return false;
+  try {
+    ctx.retrieval = await openRetrievalIndex(ctx.config.retrieval);
+  } catch (error: any) {
+    emitLog(ctx, "Retrieval", `Document library unavailable: ${error.message}`, "warning");
+    return false;
+  }
+  if (report) {
+    const { files, chunks, embedded, warnings } = ctx.retrieval;
+    emitLog(ctx, "Retrieval", `Indexed ${chunks} passages from ${files} documents in ${ctx.config.retrieval.dir}${embedded ? " (BM25 + embeddings)" : ""}`, "success");
+    warnings.forEach(warning => emitLog(ctx, "Retrieval", warning, "warning"));
+  }
+  return true;
+}
+
+export function createARDR(config: ARDRConfig = {}): ARDRInstance {
+  if (config.apiKey) {
+    initializeOpenAI(config.apiKey);
+  }
+  (config.providers || []).forEach(provider => {
+    registerProvider(provider, { default: provider.name === config.defaultProvider });
+  });
+  if (config.routes) {
+    routeModels(config.routes);
+  }
+
+  const bus = createEventBus(config.listeners);
+  const cacheSettings = (config.pipeline || DEFAULT_PIPELINE_CONFIG).cache;
+  const cache = config.cache === false || (!config.cache && !cacheSettings.enabled)
+    ? undefined
+    : config.cache || openResponseCache(cacheSettings, config.cacheDir);
+  let retrievalReported = false;
+
+  const execute = async (prompt: string, options: RunOptions, runBus: EventBus): Promise<ARDRRunResult> => {
+    const pipeline = options.pipeline || config.pipeline || DEFAULT_PIPELINE_CONFIG;
+    const deadlineMs = options.deadlineMs ?? pipeline.deadline.runMs;
+    const ctx = createRunContext({
+      debug: options.debug ?? config.debug,
+      config: options.maxCost === undefined ? pipeline : { ...pipeline, maxRunCost: options.maxCost },
+      emit: event => {
+        bus.emit(event);
+        runBus.emit(event);
+      },
+      signal: options.signal,
+      deadline: deadlineMs > 0 ? Date.now() + deadlineMs : undefined,
+      cache,
+      bypassCache: options.bypassCache
+    });
+    let trace: TraceWriter | undefined;
+    try {
+      const session = options.session;
+      let conversation = "";
+      if (session) {
+        await compactSession(session, ctx);
+        conversation = formatTranscript(session);
+      }
+
+      // The index summary is news once per instance, not on every run
+      if (await attachRetrieval(ctx, !retrievalReported)) retrievalReported = true;
+
+      const tier = options.tier || config.tier || "high";
+      if (config.traceDir) {
+        const runId = randomUUID();
+        const startedAt = Date.now();
+        trace = createTraceWriter(
+          traceFileName(config.traceDir, runId, startedAt),
+          { runId, prompt, tier, conversation, attachments: options.attachments, config: ctx.config, startedAt },
+          error => emitLog(ctx, "Trace", `Trace not written: ${error.message}`, "warning")
+        );
+        ctx.trace = trace;
+      }
+
+      const result = await runARDR(prompt, tier, ctx, conversation, options.attachments);
+      if (trace) {
+        trace.finish(result.state, result.fastPath);
+        result.tracePath = trace.file;
+      }
+
+      if (session) {
+        addTurn(session, "user", prompt);
+        addTurn(session, "assistant", result.finalResponse);
+        addSessionUsage(session, result.usage, result.cost.totalCost);
+      }
+      return result;
+    } catch (error: any) {
+      trace?.fail(error);
+      // Model failures were already reported by callModel, and a cancellation is not an error
+      if (!(error instanceof ModelCallError) && !(error instanceof RunCancelledError)) {
+        ctx.emit({ type: "error", message: error.message });
+      }
+      throw error;
+    }
+  };
+
+  return {
+    cache,
+
+    run(prompt: string, options: RunOptions = {}): Promise<ARDRRunResult> {
+      return execute(prompt, options, createEventBus(options.listeners));
+    },
+
+    stream(prompt: string, options: RunOptions = {}): ARDRRunStream {
+      const runBus = createEventBus(options.listeners);
+      let settle!: () => void;
+      // Subscribe before the run starts so run:start is not missed
+      const events = iterateEvents(runBus.subscribe, new Promise<void>(resolve => { settle = resolve; }));
+      const result = execute(prompt, options, runBus);
+      result.then(settle, settle);
+      return { result, [Symbol.asyncIterator]: () => events[Symbol.asyncIterator]() };
+    },
+
+    subscribe: bus.subscribe
+  };
+}
+
+export interface ReplayOptions {
+  debug?: boolean;
+  listeners?: ARDRListener[];
+  /** `key.path=value` changes applied on top of the recorded config. */
+  overrides?: string[];
+}
+
+export interface ReplayResult {
+  result: ARDRRunResult;
+  trace: LoadedTrace;
+  stats: ReplayStats;
+  /** Document searches served from the trace, and those the recorded run never made. */
+  searches: ReplaySearchStats;
+  /** True when the replayed answer equals the recorded one. */
+  identical: boolean;
+}
+
+/**
+ * Re-runs the orchestration of a recorded run against its recorded model responses, with
+ * the recorded config, conversation, attachments and document searches and no network
+ * access. Retries replay without backoff. Used to check stage logic changes
+ * deterministically.
+ */
+export async function replayTrace(file: string, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const trace = loadTrace(file);
+  // Traces from older versions lack newer settings; those take their defaults
+  let config = mergeConfig(DEFAULT_PIPELINE_CONFIG, trace.header.config);
+  (options.overrides || []).forEach(assignment => {
+    config = applyOverride(config, assignment) as PipelineConfig;
+  });
+  const issues = validatePipelineConfig(config);
+  if (issues.length > 0) throw new ConfigError(file, issues);
+
+  const provider = createReplayProvider(trace.calls);
+  const index = createReplayIndex(trace.searches);
+  const bus = createEventBus(options.listeners);
+  const ctx = createRunContext({
+    debug: options.debug,
+    config: { ...config, retry: { ...config.retry, baseDelayMs: 0, maxDelayMs: 0 } },
+    emit: bus.emit,
+    provider
+  });
+  // The documents may have changed since the run; it sees the passages it found then
+  if (ctx.config.retrieval.enabled) ctx.retrieval = index;
+
+  const { prompt, tier, conversation, attachments } = trace.header;
+  const result = await runARDR(prompt, tier, ctx, conversation, attachments);
+  return {
+    result,
+    trace,
+    stats: provider.stats,
+    searches: index.stats,
+    identical: trace.result?.state.finalResponse === result.finalResponse
+  };
+}
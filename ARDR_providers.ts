@@ -0,0 +1,279 @@
+import * as fs from "fs";
+import OpenAI from "openai";
+import { ChatMessage, ModelProvider, ModelRequest, ModelResponse, TokenUsage, ToolCall } from "./ARDR_types";
+
+const providers = new Map<string, ModelProvider>();
+const modelRoutes = new Map<string, string>();
+let defaultProviderName: string | null = null;
+
+export function registerProvider(provider: ModelProvider, options: { default?: boolean } = {}): ModelProvider {
+  providers.set(provider.name, provider);
+  if (options.default || !defaultProviderName) {
+    defaultProviderName = provider.name;
+  }
+  return provider;
+}
+
+export function getProvider(name: string): ModelProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Model provider "${name}" is not registered. Call registerProvider first.`);
+  }
+  return provider;
+}
+
+export function listProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Sends every call for `model` to the named provider instead of the default one.
+ * Model ids are the values in MODELS, so a single role can be moved to another backend.
+ */
+export function routeModel(model: string, providerName: string): void {
+  modelRoutes.set(model, providerName);
+}
+
+export function routeModels(routes: Record<string, string>): void {
+  Object.entries(routes).forEach(([model, providerName]) => routeModel(model, providerName));
+}
+
+export function resolveProvider(model: string): ModelProvider {
+  const routed = modelRoutes.get(model);
+  if (routed) return getProvider(routed);
+  if (!defaultProviderName) {
+    throw new Error("No model provider registered. Call initializeOpenAI or registerProvider first.");
+  }
+  return getProvider(defaultProviderName);
+}
+
+export function resetProviders(): void {
+  providers.clear();
+  modelRoutes.clear();
+  defaultProviderName = null;
+}
+
+function toTokenUsage(usage: OpenAI.CompletionUsage | null | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens
+  };
+}
+
+function toOpenAIMessages(messages: ChatMessage[]): OpenAI.ChatCompletionMessageParam[] {
+  return messages.map((message): OpenAI.ChatCompletionMessageParam => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId || "", content: message.content };
+    }
+    if (message.role === "assistant") {
+      return message.toolCalls?.length
+        ? {
+          role: "assistant",
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({ id: call.id, type: "function", function: { name: call.name, arguments: call.arguments } }))
+        }
+        : { role: "assistant", content: message.content };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+// Tool fields are only sent when the request offers tools; some servers reject them otherwise
+function toolParams(request: ModelRequest): Pick<OpenAI.ChatCompletionCreateParams, "tools" | "tool_choice"> {
+  if (!request.tools?.length) return {};
+  return {
+    tools: request.tools.map(tool => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    })),
+    tool_choice: request.toolChoice || "auto"
+  };
+}
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  baseURL: string;
+  apiKey?: string;
+  defaultHeaders?: Record<string, string>;
+  /**
+   * Ask for token usage at the end of a stream (`stream_options`). Defaults to true; a
+   * server that rejects the field is asked again without it, and then never sent it.
+   */
+  streamUsage?: boolean;
+}
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ModelProvider & { client: OpenAI } {
+  const client = new OpenAI({
+    baseURL: options.baseURL,
+    // Local llama.cpp / vLLM servers usually ignore the key, but the SDK requires one
+    apiKey: options.apiKey || "not-needed",
+    defaultHeaders: options.defaultHeaders,
+    // callModel owns retries, backoff and fallbacks
+    maxRetries: 0
+  });
+  let streamUsage = options.streamUsage ?? true;
+
+  const openStream = (request: ModelRequest, withUsage: boolean) => client.chat.completions.create({
+    model: request.model,
+    messages: toOpenAIMessages(request.messages),
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    stream: true,
+    ...(withUsage ? { stream_options: { include_usage: true } } : {})
+  }, { signal: request.signal });
+
+  return {
+    name: options.name,
+    baseURL: options.baseURL,
+    client,
+
+    async complete(request: ModelRequest): Promise<ModelResponse> {
+      const response = await client.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...toolParams(request)
+      }, { signal: request.signal });
+      const message = response.choices[0]?.message;
+      const toolCalls = message?.tool_calls?.map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+      return {
+        content: message?.content || "",
+        usage: toTokenUsage(response.usage),
+        ...(toolCalls?.length ? { toolCalls } : {})
+      };
+    },
+
+    async stream(request: ModelRequest, onToken: (token: string) => void): Promise<ModelResponse> {
+      let stream: Awaited<ReturnType<typeof openStream>>;
+      try {
+        stream = await openStream(request, streamUsage);
+      } catch (error: any) {
+        // Rejected before any token: if the request passes without stream_options, the field was the problem
+        if (!streamUsage || (error?.status !== 400 && error?.status !== 422)) throw error;
+        stream = await openStream(request, false);
+        streamUsage = false;
+      }
+
+      let content = "";
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content || "";
+        if (token) {
+          onToken(token);
+          content += token;
+        }
+        if (chunk.usage) usage = toTokenUsage(chunk.usage);
+      }
+      return { content, usage };
+    }
+  };
+}
+
+export function createOpenRouterProvider(apiKey: string): ModelProvider & { client: OpenAI } {
+  return createOpenAICompatibleProvider({
+    name: "openrouter",
+    baseURL: "https://openrouter.ai/api/v1",
+    apiKey,
+    defaultHeaders: {
+      "HTTP-Referer": "https://infiniax.replit.app",
+      "X-Title": "ARDR High"
+    }
+  });
+}
+
+/** A mock answer; the object form asks for tool calls, as a model using the tools API would. */
+export type MockReply = string | { content?: string; toolCalls: ToolCall[] };
+
+export interface MockRule {
+  model?: string;
+  match?: string | RegExp;
+  response: string | ((request: ModelRequest) => MockReply);
+}
+
+export type MockScript = MockRule[] | ((request: ModelRequest) => MockReply);
+
+export interface MockProvider extends ModelProvider {
+  calls: ModelRequest[];
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * In-process provider for offline runs and tests. Rules are checked in order against the
+ * model id and the concatenated message text; the first match answers the call.
+ */
+export function createMockProvider(
+  script: MockScript,
+  options: { name?: string; fallback?: string } = {}
+): MockProvider {
+  const calls: ModelRequest[] = [];
+  const fallback = options.fallback ?? "{}";
+
+  const answer = (request: ModelRequest): ModelResponse => {
+    calls.push(request);
+    const text = request.messages.map(m => m.content).join("\n");
+
+    let reply: MockReply = fallback;
+    if (typeof script === "function") {
+      reply = script(request);
+    } else {
+      const rule = script.find(r => {
+        if (r.model && r.model !== request.model) return false;
+        if (r.match === undefined) return true;
+        return typeof r.match === "string" ? text.includes(r.match) : r.match.test(text);
+      });
+      if (rule) {
+        reply = typeof rule.response === "function" ? rule.response(request) : rule.response;
+      }
+    }
+
+    const content = typeof reply === "string" ? reply : reply.content || "";
+    const promptTokens = estimateTokens(text);
+    const completionTokens = estimateTokens(typeof reply === "string" ? reply : content + JSON.stringify(reply.toolCalls));
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      ...(typeof reply === "string" ? {} : { toolCalls: reply.toolCalls })
+    };
+  };
+
+  return {
+    name: options.name || "mock",
+    // Canned answers must never be served to a real run
+    cacheable: false,
+    calls,
+
+    async complete(request: ModelRequest): Promise<ModelResponse> {
+      return answer(request);
+    },
+
+    async stream(request: ModelRequest, onToken: (token: string) => void): Promise<ModelResponse> {
+      const response = answer(request);
+      response.content.split(/(?<=\s)/).forEach(token => onToken(token));
+      return response;
+    }
+  };
+}
+
+/**
+ * Reads mock rules from a JSON array of `{ "model"?, "match"?, "pattern"?, "response" }`.
+ * `pattern` is a regular expression source, for rules JSON cannot express as a substring.
+ */
+export function loadMockRules(file: string): MockRule[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw)) throw new Error(`${file} must contain a JSON array of mock rules`);
+
+  return raw.map((rule: any, i: number) => {
+    if (typeof rule?.response !== "string") throw new Error(`${file}: rule ${i + 1} needs a string "response"`);
+    return {
+      model: rule.model,
+      match: rule.pattern !== undefined ? new RegExp(rule.pattern) : rule.match,
+      response: rule.response
+    };
+  });
+}
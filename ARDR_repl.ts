@@ -0,0 +1,179 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+
+// Lines arriving closer together than this were pasted, not typed
+const PASTE_MS = 25;
+const BLOCK_DELIMITER = '"""';
+
+export interface ReplCommand {
+  /** Typed after a slash: `/tier`. */
+  name: string;
+  aliases?: string[];
+  /** Argument synopsis for /help, such as `[low|high|max]`. */
+  usage?: string;
+  description: string;
+  /** Candidates for the argument typed so far (the text after the command name). */
+  complete?(partial: string): string[];
+  run(arg: string): void | Promise<void>;
+}
+
+/**
+ * Splits `/name argument` into its parts. Anything else, including a message that starts
+ * with a path such as `/etc/hosts`, is not a command and gives null.
+ */
+export function parseCommand(input: string): { name: string; arg: string } | null {
+  const match = input.trim().match(/^\/([a-z][a-z-]*)(?:\s+([\s\S]*))?$/i);
+  return match ? { name: match[1].toLowerCase(), arg: (match[2] || "").trim() } : null;
+}
+
+export function findCommand(commands: ReplCommand[], name: string): ReplCommand | undefined {
+  return commands.find(c => c.name === name || c.aliases?.includes(name));
+}
+
+export function formatCommandHelp(commands: ReplCommand[]): string[] {
+  const synopses = commands.map(c => `/${c.name}${c.usage ? ` ${c.usage}` : ""}`);
+  const width = Math.max(...synopses.map(s => s.length)) + 2;
+  return commands.map((c, i) => `${synopses[i].padEnd(width)}${c.description}`);
+}
+
+/**
+ * Files and directories starting with `partial`, relative to `cwd`; directories end in
+ * a slash so completion can continue into them. Dotfiles only match an explicit dot.
+ */
+export function completePath(partial: string, cwd: string = process.cwd()): string[] {
+  const slash = partial.lastIndexOf("/");
+  const dir = slash >= 0 ? partial.slice(0, slash + 1) : "";
+  const prefix = partial.slice(slash + 1);
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.resolve(cwd, dir || "."), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter(e => e.name.startsWith(prefix) && (prefix.startsWith(".") || !e.name.startsWith(".")))
+    .map(e => `${dir}${e.name}${e.isDirectory() ? "/" : ""}`)
+    .sort();
+}
+
+/**
+ * A readline completer for command names, their arguments, and `@path` references
+ * anywhere in a message.
+ */
+export function createCompleter(commands: ReplCommand[]): (line: string) => [string[], string] {
+  return (line: string) => {
+    const command = line.match(/^\/([a-z-]*)$/i);
+    if (command) {
+      const names = commands.flatMap(c => [c.name, ...(c.aliases || [])]).map(n => `/${n}`);
+      return [names.filter(n => n.startsWith(line)), line];
+    }
+
+    const reference = line.match(/(?:^|\s)@(\S*)$/);
+    if (reference) {
+      return [completePath(reference[1]).map(p => `@${p}`), `@${reference[1]}`];
+    }
+
+    const argument = line.match(/^\/([a-z-]+)\s+([\s\S]*)$/i);
+    const target = argument && findCommand(commands, argument[1].toLowerCase());
+    if (target?.complete) {
+      // Complete the last word only, so multi-word arguments work
+      const word = argument![2].split(/\s+/).pop() || "";
+      return [target.complete(argument![2]).filter(c => c.startsWith(word)), word];
+    }
+    return [[], line];
+  };
+}
+
+/** Saved input history, newest first as readline expects it. A missing file is empty. */
+export function loadHistory(file: string, maxEntries: number): string[] {
+  try {
+    return fs.readFileSync(file, "utf8").split("\n").filter(Boolean).reverse().slice(0, maxEntries);
+  } catch {
+    return [];
+  }
+}
+
+export function saveHistory(file: string, history: string[]): void {
+  try {
+    fs.writeFileSync(file, [...history].reverse().join("\n") + "\n", "utf8");
+  } catch {
+    // An unwritable home directory costs the history, not the session
+  }
+}
+
+export interface InputReader {
+  /** True while a `"""` block is open. */
+  inBlock(): boolean;
+}
+
+/**
+ * Collects the lines readline emits into complete inputs. A `"""` line opens a block that
+ * runs until a line ending in `"""`; with `detectPaste`, lines that arrive together (a
+ * paste) are joined into one input. `onContinue` is called when more lines are expected.
+ * An unfinished block or paste is submitted when the input closes.
+ */
+export function createInputReader(
+  rl: readline.Interface,
+  onInput: (text: string) => void,
+  options: { detectPaste: boolean; onContinue?: () => void }
+): InputReader {
+  let block: string[] | null = null;
+  let pasted: string[] = [];
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    timer = null;
+    const text = pasted.join("\n");
+    pasted = [];
+    onInput(text);
+  };
+
+  rl.on("line", line => {
+    if (block) {
+      if (line.trimEnd().endsWith(BLOCK_DELIMITER)) {
+        block.push(line.trimEnd().slice(0, -BLOCK_DELIMITER.length));
+        const text = block.join("\n");
+        block = null;
+        onInput(text);
+      } else {
+        block.push(line);
+        options.onContinue?.();
+      }
+      return;
+    }
+
+    if (line.trimStart().startsWith(BLOCK_DELIMITER)) {
+      const rest = line.trimStart().slice(BLOCK_DELIMITER.length);
+      if (rest.trimEnd().endsWith(BLOCK_DELIMITER)) {
+        onInput(rest.trimEnd().slice(0, -BLOCK_DELIMITER.length));
+      } else {
+        block = rest ? [rest] : [];
+        options.onContinue?.();
+      }
+      return;
+    }
+
+    if (!options.detectPaste) {
+      onInput(line);
+      return;
+    }
+    pasted.push(line);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, PASTE_MS);
+  });
+
+  rl.on("close", () => {
+    if (timer) {
+      clearTimeout(timer);
+      flush();
+    }
+    if (block) {
+      const text = block.join("\n");
+      block = null;
+      onInput(text);
+    }
+  });
+
+  return { inBlock: () => block !== null };
+}
@@ -0,0 +1,296 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BranchOutput, Citation, RetrievalIndex, RetrievalSettings, RetrievedChunk, RunContext } from "./ARDR_types";
+
+const SKIPPED_DIRS = new Set(["node_modules", "dist", "build", "__pycache__"]);
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "it", "its", "this", "that", "these", "those",
+  "of", "to", "in", "on", "for", "with", "as", "by", "at", "from", "and", "or", "so", "then", "than",
+  "which", "who", "what", "has", "have", "had", "can", "will", "would", "should", "must", "may", "we", "they"
+]);
+
+// BM25 defaults from the literature; passages are short enough that tuning buys little
+const K1 = 1.2;
+const B = 0.75;
+
+/** Search terms of a text; camelCase identifiers are split so code is searchable by words. */
+export function searchTerms(text: string): string[] {
+  const words = text.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase().match(/[a-z]+|\d+(?:\.\d+)?/g) || [];
+  return words
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(t => /^\d/.test(t) || t.length <= 4 ? t : t.replace(/(?:ing|ed|es|s)$/, ""));
+}
+
+/**
+ * Splits a document into passages of about `chunkChars` on line boundaries, each
+ * starting with the last `overlap` characters of the previous one. Lines longer than a
+ * passage are cut, keeping their line number.
+ */
+export function chunkDocument(text: string, chunkChars: number, overlap: number): { lines: [number, number]; text: string }[] {
+  const segments: { line: number; text: string }[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    for (let at = 0; at === 0 || at < line.length; at += chunkChars) {
+      segments.push({ line: i + 1, text: line.slice(at, at + chunkChars) });
+    }
+  });
+
+  const chunks: { lines: [number, number]; text: string }[] = [];
+  let start = 0;
+  while (start < segments.length) {
+    let end = start;
+    let size = 0;
+    while (end < segments.length && (end === start || size + segments[end].text.length + 1 <= chunkChars)) {
+      size += segments[end].text.length + 1;
+      end++;
+    }
+    const body = segments.slice(start, end).map(s => s.text).join("\n");
+    if (body.trim()) chunks.push({ lines: [segments[start].line, segments[end - 1].line], text: body });
+    if (end >= segments.length) break;
+
+    let next = end;
+    let repeated = 0;
+    while (next - 1 > start && repeated + segments[next - 1].text.length + 1 <= overlap) {
+      next--;
+      repeated += segments[next].text.length + 1;
+    }
+    start = next;
+  }
+  return chunks;
+}
+
+/**
+ * Files under `dir` with one of `extensions` (any file when omitted), sorted. Dotfiles and
+ * dependency or build directories are skipped.
+ */
+export function listDocuments(dir: string, extensions?: string[]): string[] {
+  const files: string[] = [];
+  const walk = (current: string) => {
+    fs.readdirSync(current, { withFileTypes: true }).forEach(entry => {
+      if (entry.name.startsWith(".")) return;
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) walk(full);
+      } else if (entry.isFile() && (!extensions || extensions.includes(path.extname(entry.name).toLowerCase()))) {
+        files.push(full);
+      }
+    });
+  };
+  walk(dir);
+  return files.sort();
+}
+
+type PdfParser = (data: Buffer) => Promise<{ text: string }>;
+
+function loadPdfParser(): PdfParser | null {
+  try {
+    return require("pdf-parse");
+  } catch {
+    return null;
+  }
+}
+
+async function embedTexts(texts: string[], embeddings: NonNullable<RetrievalSettings["embeddings"]>): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += 32) {
+    const response = await fetch(`${embeddings.baseUrl.replace(/\/$/, "")}/embeddings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: embeddings.model, input: texts.slice(i, i + 32) })
+    });
+    if (!response.ok) throw new Error(`${embeddings.baseUrl} answered ${response.status}`);
+    const body = await response.json() as { data: { embedding: number[]; index: number }[] };
+    body.data.sort((a, b) => a.index - b.index).forEach(d => vectors.push(d.embedding));
+  }
+  return vectors;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+interface IndexedChunk extends RetrievedChunk {
+  termCounts: Map<string, number>;
+  length: number;
+  vector?: number[];
+}
+
+/**
+ * Reads and chunks every document under `settings.dir` and builds a BM25 index over the
+ * passages, blended with embedding similarity when an embeddings endpoint is configured.
+ * Unreadable files and an unreachable endpoint are reported in `warnings`, not thrown.
+ */
+export async function buildRetrievalIndex(settings: RetrievalSettings): Promise<RetrievalIndex> {
+  const root = path.resolve(settings.dir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new Error(`Retrieval directory ${root} does not exist`);
+  }
+
+  const warnings: string[] = [];
+  const chunks: IndexedChunk[] = [];
+  const pdfParser = loadPdfParser();
+  let files = 0;
+  let skippedPdfs = 0;
+
+  for (const file of listDocuments(root, settings.extensions)) {
+    const source = path.relative(root, file);
+    if (fs.statSync(file).size > settings.maxFileBytes) {
+      warnings.push(`${source}: larger than ${settings.maxFileBytes} bytes, skipped`);
+      continue;
+    }
+    let text: string;
+    try {
+      if (path.extname(file).toLowerCase() === ".pdf") {
+        if (!pdfParser) {
+          skippedPdfs++;
+          continue;
+        }
+        text = (await pdfParser(fs.readFileSync(file))).text;
+      } else {
+        text = fs.readFileSync(file, "utf8");
+        if (text.slice(0, 1000).includes("\u0000")) continue;
+      }
+    } catch (error: any) {
+      warnings.push(`${source}: ${error.message}`);
+      continue;
+    }
+
+    files++;
+    chunkDocument(text, settings.chunkChars, settings.chunkOverlap).forEach(chunk => {
+      const terms = searchTerms(chunk.text);
+      const termCounts = new Map<string, number>();
+      terms.forEach(t => termCounts.set(t, (termCounts.get(t) || 0) + 1));
+      chunks.push({ source, lines: chunk.lines, text: chunk.text, score: 0, termCounts, length: terms.length });
+    });
+  }
+  if (skippedPdfs > 0) {
+    warnings.push(`${skippedPdfs} PDF file(s) skipped: reading PDFs needs the "pdf-parse" package (npm install pdf-parse)`);
+  }
+
+  const documentFrequency = new Map<string, number>();
+  chunks.forEach(c => c.termCounts.forEach((_, t) => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1)));
+  const averageLength = chunks.reduce((sum, c) => sum + c.length, 0) / Math.max(1, chunks.length);
+
+  const { embeddings } = settings;
+  let embedded = false;
+  if (embeddings && chunks.length > 0) {
+    try {
+      const vectors = await embedTexts(chunks.map(c => c.text), embeddings);
+      chunks.forEach((c, i) => { c.vector = vectors[i]; });
+      embedded = true;
+    } catch (error: any) {
+      warnings.push(`Embeddings unavailable, using BM25 only: ${error.message}`);
+    }
+  }
+
+  const bm25 = (chunk: IndexedChunk, queryTerms: string[]) => queryTerms.reduce((sum, term) => {
+    const tf = chunk.termCounts.get(term);
+    if (!tf) return sum;
+    const df = documentFrequency.get(term) || 0;
+    const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+    return sum + idf * tf * (K1 + 1) / (tf + K1 * (1 - B + B * chunk.length / averageLength));
+  }, 0);
+
+  return {
+    files,
+    chunks: chunks.length,
+    embedded,
+    warnings,
+
+    async search(query: string, limit: number): Promise<RetrievedChunk[]> {
+      const queryTerms = Array.from(new Set(searchTerms(query)));
+      const lexical = chunks.map(c => bm25(c, queryTerms));
+      const best = Math.max(0, ...lexical);
+
+      let semantic: number[] | null = null;
+      if (embedded && embeddings) {
+        try {
+          const [vector] = await embedTexts([query], embeddings);
+          semantic = chunks.map(c => c.vector ? Math.max(0, cosine(vector, c.vector)) : 0);
+        } catch {
+          // One failed query embedding falls back to BM25 for that query
+        }
+      }
+
+      return chunks
+        .map((c, i) => ({
+          source: c.source,
+          lines: c.lines,
+          text: c.text,
+          score: semantic && embeddings
+            ? (1 - embeddings.weight) * (best > 0 ? lexical[i] / best : 0) + embeddings.weight * semantic[i]
+            : lexical[i]
+        }))
+        .filter(c => c.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+  };
+}
+
+const openIndexes = new Map<string, Promise<RetrievalIndex>>();
+
+/**
+ * The index for a retrieval config, built once per process and shared by every ARDR
+ * instance with the same settings. Documents changed after the build are not seen.
+ */
+export function openRetrievalIndex(settings: RetrievalSettings): Promise<RetrievalIndex> {
+  const key = JSON.stringify({ ...settings, dir: path.resolve(settings.dir), branches: undefined, topK: undefined, maxSearches: undefined });
+  let index = openIndexes.get(key);
+  if (!index) {
+    index = buildRetrievalIndex(settings);
+    // A failed build is retried by the next run instead of being cached
+    index.catch(() => openIndexes.delete(key));
+    openIndexes.set(key, index);
+  }
+  return index;
+}
+
+const passageIds = new WeakMap<RunContext, Map<string, string>>();
+
+/**
+ * A retrieved chunk as a citable passage. Ids are handed out per run, so a passage
+ * found by several branches or passes is cited under one id in the ledger.
+ */
+export function toCitation(ctx: RunContext, chunk: RetrievedChunk): Citation {
+  const ids = passageIds.get(ctx) || new Map<string, string>();
+  passageIds.set(ctx, ids);
+  const key = `${chunk.source}:${chunk.lines[0]}`;
+  let id = ids.get(key);
+  if (!id) {
+    id = `S${ids.size + 1}`;
+    ids.set(key, id);
+  }
+  return { id, source: chunk.source, lines: chunk.lines, text: chunk.text };
+}
+
+export function formatCitationSource(citation: Citation): string {
+  return `${citation.source}:${citation.lines[0]}-${citation.lines[1]}`;
+}
+
+export function formatPassages(passages: Citation[]): string {
+  return passages.map(p => `[${p.id}] ${formatCitationSource(p)}\n${p.text}`).join("\n\n");
+}
+
+/** The passages an output refers to as [S2] or [S1, S3] anywhere in its text. */
+export function citedPassages(output: BranchOutput, passages: Citation[]): Citation[] {
+  const text = [...output.hypotheses, output.notes, ...output.artifacts].join("\n");
+  const cited = new Set<string>();
+  for (const match of text.matchAll(/\[(S\d+(?:\s*,\s*S\d+)*)\]/g)) {
+    match[1].split(",").forEach(id => cited.add(id.trim()));
+  }
+  return passages.filter(p => cited.has(p.id));
+}
+
+/** Every passage cited by a working branch, once, in id order. */
+export function collectCitations(branchOutputs: BranchOutput[]): Citation[] {
+  const byId = new Map<string, Citation>();
+  branchOutputs.filter(b => !b.failed).forEach(b => (b.citations || []).forEach(c => byId.set(c.id, c)));
+  return Array.from(byId.values()).sort((a, b) => Number(a.id.slice(1)) - Number(b.id.slice(1)));
+}
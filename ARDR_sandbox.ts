@@ -0,0 +1,299 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawn } from "child_process";
+import { BranchOutput, ExecutionResult, ExecutionSettings, RunContext, SandboxLanguage } from "./ARDR_types";
+import { emitLog } from "./ARDR_events";
+import { throwIfCancelled } from "./ARDR_utils";
+
+export interface CodeBlock {
+  language: SandboxLanguage;
+  code: string;
+}
+
+const LANGUAGE_TAGS: Record<string, SandboxLanguage> = {
+  js: "javascript",
+  javascript: "javascript",
+  node: "javascript",
+  mjs: "javascript",
+  ts: "typescript",
+  typescript: "typescript",
+  py: "python",
+  python: "python",
+  python3: "python"
+};
+
+// Unfenced artifacts are only run when they start a line like a program would, so prose
+// that merely mentions code is left alone
+const UNFENCED_PATTERNS: [SandboxLanguage, RegExp][] = [
+  ["python", /^(?:def\s+\w+\s*\(|class\s+\w+.*:\s*$|from\s+[\w.]+\s+import\s|import\s+\w+\s*$|print\()/m],
+  ["typescript", /^(?:function\s+\w+\s*(?:<[^>]*>)?\([^)]*:\s*\w+|(?:const|let)\s+\w+\s*:\s*\w+|interface\s+\w+\s*\{|type\s+\w+\s*=)/m],
+  ["javascript", /^(?:function\s+\w+\s*\(|(?:const|let)\s+\w+\s*=|class\s+\w+\s*\{|console\.log\()/m]
+];
+
+/**
+ * Code blocks of a branch artifact: every fenced block in a supported language, or the
+ * whole artifact when it is unfenced and recognisably a program. Fences without a
+ * language tag count as `untagged` when given, and are skipped otherwise.
+ */
+export function extractCodeBlocks(text: string, untagged?: SandboxLanguage): CodeBlock[] {
+  const fences = [...text.matchAll(/```([\w+-]*)[^\n]*\n([\s\S]*?)```/g)];
+  if (fences.length > 0) {
+    return fences.flatMap(([, tag, code]) => {
+      const language = tag ? LANGUAGE_TAGS[tag.toLowerCase()] : untagged;
+      return language && code.trim() ? [{ language, code }] : [];
+    });
+  }
+  const detected = UNFENCED_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return detected ? [{ language: detected[0], code: text }] : [];
+}
+
+const NETWORK_ERROR = "Network access is disabled in the ARDR sandbox";
+const PROCESS_ERROR = "Starting processes, native code and writes outside the working directory are disabled in the ARDR sandbox";
+
+// Preloaded into every JS process: client sockets, DNS and fetch throw before anything leaves
+// the machine. Files, child processes and workers are left to Node's permission model
+const NODE_GUARD = `
+const blocked = () => { throw new Error(${JSON.stringify(NETWORK_ERROR)}); };
+const net = require("net");
+net.Socket.prototype.connect = blocked;
+net.connect = net.createConnection = blocked;
+require("tls").connect = blocked;
+require("dgram").createSocket = blocked;
+const dns = require("dns");
+dns.lookup = dns.resolve = dns.promises.lookup = dns.promises.resolve = blocked;
+globalThis.fetch = async () => blocked();
+`;
+
+// An audit hook cannot be removed once installed; it refuses sockets, new processes, native
+// libraries and any write outside the working directory
+const PYTHON_GUARD = `
+import os, resource, runpy, sys
+limit = int(sys.argv[1]) * 1024 * 1024
+try:
+    resource.setrlimit(resource.RLIMIT_AS, (limit, limit))
+except (ValueError, OSError):
+    pass
+_root = os.path.realpath(os.getcwd())
+_network = ("socket.connect", "socket.getaddrinfo", "socket.gethostbyname", "socket.sendto", "socket.sendmsg")
+_processes = ("subprocess.Popen", "os.system", "os.exec", "os.posix_spawn", "os.spawn", "os.fork", "os.forkpty", "pty.spawn", "ctypes.dlopen", "ctypes.cdata")
+_writes = ("os.remove", "os.rename", "os.rmdir", "os.mkdir", "os.chmod", "os.chown", "os.link", "os.symlink", "os.truncate", "os.utime", "shutil.rmtree", "shutil.copyfile", "shutil.move")
+_write_flags = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND | os.O_TRUNC
+def _inside(target):
+    if isinstance(target, int):
+        return True
+    full = os.path.realpath(os.fsdecode(target))
+    return full == _root or full.startswith(_root + os.sep)
+def _guard(event, args):
+    if event in _network:
+        raise OSError(${JSON.stringify(NETWORK_ERROR)})
+    if event in _processes:
+        raise PermissionError(${JSON.stringify(PROCESS_ERROR)})
+    if event == "open" and args[0] is not None:
+        mode, flags = args[1], args[2]
+        writing = (isinstance(mode, str) and any(c in mode for c in "wax+")) or ((flags or 0) & _write_flags)
+        if writing and not _inside(args[0]):
+            raise PermissionError(${JSON.stringify(PROCESS_ERROR)})
+    elif event in _writes and not all(_inside(a) for a in args[:2] if isinstance(a, (str, bytes, os.PathLike))):
+        raise PermissionError(${JSON.stringify(PROCESS_ERROR)})
+sys.addaudithook(_guard)
+sys.argv = sys.argv[2:]
+runpy.run_path(sys.argv[0], run_name="__main__")
+`;
+
+/**
+ * Node's permission model: with it the JS process may read and write only its working
+ * directory and cannot start processes or workers. Null on Node versions without it.
+ */
+function nodePermissionFlag(): string | null {
+  const flags = process.allowedNodeEnvironmentFlags;
+  if (flags.has("--permission")) return "--permission";
+  if (flags.has("--experimental-permission")) return "--experimental-permission";
+  return null;
+}
+
+/**
+ * TypeScript is stripped to JavaScript with esbuild (shipped with tsx) or the TypeScript
+ * compiler, whichever is installed; null when neither is.
+ */
+function transpileTypeScript(code: string): string | null {
+  try {
+    return require("esbuild").transformSync(code, { loader: "ts", format: "cjs" }).code;
+  } catch (error: any) {
+    if (error?.code !== "MODULE_NOT_FOUND") throw error;
+  }
+  try {
+    const ts = require("typescript");
+    return ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } }).outputText;
+  } catch (error: any) {
+    if (error?.code !== "MODULE_NOT_FOUND") throw error;
+  }
+  return null;
+}
+
+interface ProcessOutcome {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  spawnError?: string;
+}
+
+function runProcess(command: string, args: string[], cwd: string, env: NodeJS.ProcessEnv, settings: ExecutionSettings): Promise<ProcessOutcome> {
+  return new Promise(resolve => {
+    const child = spawn(command, args, { cwd, env, stdio: ["ignore", "pipe", "pipe"] });
+    const output = { stdout: "", stderr: "" };
+    let timedOut = false;
+    let spawnError: string | undefined;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, settings.timeoutMs);
+
+    const collect = (stream: "stdout" | "stderr") => (chunk: Buffer) => {
+      output[stream] += chunk.toString("utf8");
+      // A runaway print loop is cut off rather than buffered without bound
+      if (output.stdout.length + output.stderr.length > settings.maxOutputBytes) {
+        output[stream] = output[stream].slice(0, settings.maxOutputBytes) + "\n[output truncated]";
+        child.kill("SIGKILL");
+      }
+    };
+    child.stdout.on("data", collect("stdout"));
+    child.stderr.on("data", collect("stderr"));
+
+    child.on("error", error => { spawnError = error.message; });
+    child.on("close", code => {
+      clearTimeout(timer);
+      resolve({ exitCode: code, ...output, timedOut, spawnError });
+    });
+  });
+}
+
+/**
+ * Runs one code block in a throwaway directory with a scrubbed environment, a wall-clock
+ * timeout, a memory cap, capped output, network calls disabled, and no child processes,
+ * workers or file writes outside that directory. It passes when the process exits with
+ * status 0, so assertions in the block act as its tests.
+ *
+ * This is NOT a security boundary. The limits are enforced inside the interpreter (Node's
+ * permission model, a Python audit hook), not by the operating system, and determined code
+ * can get around them. Only enable execution where running model-written code on the host
+ * is acceptable, or run ARDR itself in a container.
+ */
+export async function runCode(language: SandboxLanguage, code: string, settings: ExecutionSettings, branch: string = ""): Promise<ExecutionResult> {
+  const start = Date.now();
+  const result = (outcome: Partial<ExecutionResult>): ExecutionResult => ({
+    branch,
+    language,
+    code,
+    passed: false,
+    exitCode: null,
+    stdout: "",
+    stderr: "",
+    timedOut: false,
+    durationMs: Date.now() - start,
+    ...outcome
+  });
+
+  let source = code;
+  if (language === "typescript") {
+    const transpiled = transpileTypeScript(code);
+    if (transpiled === null) return result({ skipped: "no TypeScript compiler installed (esbuild or typescript)" });
+    source = transpiled;
+  }
+
+  const permission = language === "python" ? null : nodePermissionFlag();
+  if (language !== "python" && permission === null) {
+    return result({ skipped: `Node ${process.version} has no permission model to confine the code (Node 20 or later)` });
+  }
+
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "ardr-sandbox-")));
+  try {
+    const env = { PATH: process.env.PATH || "", HOME: dir, TMPDIR: dir, LANG: "C.UTF-8" };
+    let outcome: ProcessOutcome;
+
+    if (language === "python") {
+      fs.writeFileSync(path.join(dir, "guard.py"), PYTHON_GUARD, "utf8");
+      fs.writeFileSync(path.join(dir, "main.py"), source, "utf8");
+      outcome = await runProcess("python3", ["-I", "-B", "guard.py", String(settings.memoryMb), "main.py"], dir, env, settings);
+    } else {
+      const esm = language === "javascript" && /^\s*(?:import|export)\s/m.test(source);
+      const file = esm ? "main.mjs" : "main.js";
+      fs.writeFileSync(path.join(dir, "guard.js"), NODE_GUARD, "utf8");
+      fs.writeFileSync(path.join(dir, file), source, "utf8");
+      outcome = await runProcess(process.execPath, [
+        permission!,
+        `--allow-fs-read=${dir}`,
+        `--allow-fs-write=${dir}`,
+        // The permission model announces itself as experimental on every start
+        "--no-warnings",
+        `--max-old-space-size=${settings.memoryMb}`,
+        "--require", "./guard.js",
+        file
+      ], dir, env, settings);
+    }
+
+    if (outcome.spawnError) {
+      return result({ skipped: `${language === "python" ? "python3" : "node"} unavailable: ${outcome.spawnError}` });
+    }
+    return result({
+      passed: outcome.exitCode === 0 && !outcome.timedOut,
+      exitCode: outcome.exitCode,
+      stdout: outcome.stdout,
+      stderr: outcome.stderr,
+      timedOut: outcome.timedOut
+    });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * One-line outcome for logs and prompts: the last exception line of the error output,
+ * or its last line when there is none.
+ */
+export function summarizeExecution(result: ExecutionResult): string {
+  if (result.skipped) return `skipped (${result.skipped})`;
+  if (result.timedOut) return `timed out after ${result.durationMs}ms`;
+  if (result.passed) return "passed";
+  const lines = result.stderr.trim().split("\n").map(line => line.trim()).filter(Boolean);
+  // Node follows the exception with its properties and its own version line
+  const lastLine = [...lines].reverse().find(line => /^[\w.]*(?:Error|Exception)\b/.test(line)) || lines.pop();
+  return `exit ${result.exitCode}${lastLine ? `: ${lastLine.slice(0, 200)}` : ""}`;
+}
+
+export function formatExecutionTrace(result: ExecutionResult, maxLines: number = 15): string {
+  const lines = result.stderr.trim().split("\n");
+  return [
+    `$ ${result.language} (${summarizeExecution(result)})`,
+    ...lines.slice(-maxLines),
+    ...(result.stdout.trim() ? ["stdout:", ...result.stdout.trim().split("\n").slice(-5)] : [])
+  ].join("\n");
+}
+
+/**
+ * Executes the code in the artifacts of the configured branches, one block at a time.
+ * Failed branches are skipped; so are blocks beyond `maxBlocks` per branch.
+ */
+export async function executeBranchArtifacts(branchOutputs: BranchOutput[], ctx: RunContext): Promise<ExecutionResult[]> {
+  const settings = ctx.config.execution;
+  if (!settings.enabled) return [];
+
+  const results: ExecutionResult[] = [];
+  for (const branch of branchOutputs) {
+    if (branch.failed || !settings.branches.includes(branch.branchName)) continue;
+    const blocks = branch.artifacts.flatMap(artifact => extractCodeBlocks(artifact)).slice(0, settings.maxBlocks);
+    if (blocks.length === 0) continue;
+
+    emitLog(ctx, "Sandbox", `Running ${blocks.length} code block(s) from ${branch.branchName}...`, "progress");
+    for (const block of blocks) {
+      throwIfCancelled(ctx);
+      const result = await runCode(block.language, block.code, settings, branch.branchName);
+      results.push(result);
+      emitLog(ctx, "Sandbox", `${branch.branchName} ${block.language}: ${summarizeExecution(result)}`,
+        result.passed ? "success" : result.skipped ? "info" : "warning");
+    }
+  }
+  return results;
+}
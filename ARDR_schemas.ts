@@ -0,0 +1,363 @@
+import { CallOptions, RunContext, TaskType } from "./ARDR_types";
+import { callModel, ModelCallError, parseJsonFromResponse } from "./ARDR_utils";
+import { emitLog } from "./ARDR_events";
+
+export type FieldSpec =
+  | { type: "string"; required?: boolean; default?: string }
+  | { type: "number"; required?: boolean; default?: number; min?: number; max?: number; integer?: boolean }
+  | { type: "enum"; values: readonly string[]; required?: boolean; default?: string }
+  | { type: "stringArray"; required?: boolean }
+  | { type: "numberArray"; required?: boolean; integer?: boolean }
+  | { type: "numberRecord"; required?: boolean; min?: number; max?: number }
+  | { type: "stringRecord"; required?: boolean };
+
+export interface OutputSchema<T> {
+  name: string;
+  fields: { [K in keyof T]: FieldSpec };
+}
+
+export interface SchemaResult<T> {
+  value: T | null;
+  issues: string[];
+  repaired: boolean;
+  raw: string;
+}
+
+export const TASK_TYPES: readonly TaskType[] = [
+  "code", "math", "writing", "reasoning", "world_knowledge", "multi_step", "data_analysis", "conversation"
+];
+
+export interface ProfilerOutput {
+  taskType: TaskType;
+  complexity: "low" | "medium" | "high" | "extreme";
+  riskScore: number;
+  allowedDepth: number;
+  requiredBranches: string[];
+}
+
+export interface BranchJsonOutput {
+  hypotheses: string[];
+  artifacts: string[];
+  notes: string;
+  contradictions: string[];
+  confidence: number;
+}
+
+export interface CounterexampleOutput {
+  counterexamples: string[];
+  failed_hypotheses: number[];
+}
+
+export interface ConsistencyOutput {
+  branch_scores: Record<string, number>;
+  proven_invariants: string[];
+  weak_points: string[];
+  uncertainty: number;
+  /** Cross-branch relations between claim ids, e.g. "C1 supports C4". */
+  claim_links: string[];
+}
+
+export interface ControllerOutput {
+  instructions: Record<string, string>;
+}
+
+export interface SynthesisJudgeOutput {
+  verdict: string;
+  winner: number;
+  /** Candidate number → why it lost. */
+  rejections: Record<string, string>;
+  notes: string;
+}
+
+export interface SearchRequestOutput {
+  /** Empty when the passages already found are enough. */
+  queries: string[];
+}
+
+export interface SharedArtifactsOutput {
+  shared_artifacts: Record<string, string>;
+}
+
+export const PROFILER_SCHEMA: OutputSchema<ProfilerOutput> = {
+  name: "profiler",
+  fields: {
+    taskType: { type: "enum", values: TASK_TYPES, required: true },
+    complexity: { type: "enum", values: ["low", "medium", "high", "extreme"], default: "medium" },
+    riskScore: { type: "number", min: 0, max: 1, default: 0.5 },
+    allowedDepth: { type: "number", min: 1, max: 3, integer: true, default: 2 },
+    requiredBranches: { type: "stringArray", required: true }
+  }
+};
+
+export const BRANCH_SCHEMA: OutputSchema<BranchJsonOutput> = {
+  name: "branch",
+  fields: {
+    hypotheses: { type: "stringArray", required: true },
+    artifacts: { type: "stringArray" },
+    notes: { type: "string", default: "" },
+    contradictions: { type: "stringArray" },
+    confidence: { type: "number", min: 0, max: 1, required: true }
+  }
+};
+
+export const COUNTEREXAMPLE_SCHEMA: OutputSchema<CounterexampleOutput> = {
+  name: "counterexample",
+  fields: {
+    counterexamples: { type: "stringArray", required: true },
+    failed_hypotheses: { type: "numberArray", integer: true }
+  }
+};
+
+export const CONSISTENCY_SCHEMA: OutputSchema<ConsistencyOutput> = {
+  name: "consistency",
+  fields: {
+    branch_scores: { type: "numberRecord", min: 0, max: 1 },
+    proven_invariants: { type: "stringArray" },
+    weak_points: { type: "stringArray" },
+    uncertainty: { type: "number", min: 0, max: 1, required: true },
+    claim_links: { type: "stringArray" }
+  }
+};
+
+export const CONTROLLER_SCHEMA: OutputSchema<ControllerOutput> = {
+  name: "controller",
+  fields: {
+    instructions: { type: "stringRecord", required: true }
+  }
+};
+
+// Read alongside the branch schema from reflection-round responses
+export const SHARED_ARTIFACTS_SCHEMA: OutputSchema<SharedArtifactsOutput> = {
+  name: "shared_artifacts",
+  fields: {
+    shared_artifacts: { type: "stringRecord" }
+  }
+};
+
+export const SYNTHESIS_JUDGE_SCHEMA: OutputSchema<SynthesisJudgeOutput> = {
+  name: "synthesis_judge",
+  fields: {
+    verdict: { type: "enum", values: ["pick", "merge"], default: "pick" },
+    winner: { type: "number", min: 1, integer: true, default: 1 },
+    rejections: { type: "stringRecord" },
+    notes: { type: "string", default: "" }
+  }
+};
+
+export const SEARCH_REQUEST_SCHEMA: OutputSchema<SearchRequestOutput> = {
+  name: "search_request",
+  fields: {
+    queries: { type: "stringArray", required: true }
+  }
+};
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*(%)?$/);
+    if (match) return match[2] ? parseFloat(match[1]) / 100 : parseFloat(match[1]);
+  }
+  return null;
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of ["text", "content", "claim", "hypothesis", "description", "statement"]) {
+      if (typeof obj[key] === "string") return obj[key] as string;
+    }
+    return JSON.stringify(value);
+  }
+  return null;
+}
+
+function clamp(value: number, min?: number, max?: number): number {
+  if (min !== undefined && value < min) return min;
+  if (max !== undefined && value > max) return max;
+  return value;
+}
+
+function emptyValue(spec: FieldSpec): unknown {
+  switch (spec.type) {
+    case "stringArray":
+    case "numberArray":
+      return [];
+    case "numberRecord":
+    case "stringRecord":
+      return {};
+    default:
+      return spec.default;
+  }
+}
+
+/**
+ * Coerces a field towards its spec: numeric strings become numbers, scores are clamped,
+ * single strings become one-element arrays and enum values are normalised. Returns
+ * undefined when the value cannot be made to fit.
+ */
+function coerceField(raw: unknown, spec: FieldSpec): unknown {
+  switch (spec.type) {
+    case "string":
+      return toText(raw) ?? undefined;
+    case "number": {
+      const n = toNumber(raw);
+      if (n === null) return undefined;
+      return clamp(spec.integer ? Math.round(n) : n, spec.min, spec.max);
+    }
+    case "enum": {
+      if (typeof raw !== "string") return undefined;
+      const normalised = raw.trim().toLowerCase().replace(/[\s-]+/g, "_");
+      return spec.values.includes(normalised) ? normalised : undefined;
+    }
+    case "stringArray": {
+      const items = Array.isArray(raw) ? raw : typeof raw === "string" ? [raw] : null;
+      if (!items) return undefined;
+      return items.map(toText).filter((t): t is string => t !== null && t.trim() !== "");
+    }
+    case "numberArray": {
+      const items = Array.isArray(raw) ? raw : [raw];
+      const numbers = items.map(toNumber);
+      if (numbers.some(n => n === null)) return undefined;
+      return (numbers as number[]).map(n => spec.integer ? Math.round(n) : n);
+    }
+    case "numberRecord": {
+      if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+      const out: Record<string, number> = {};
+      for (const [key, value] of Object.entries(raw)) {
+        const n = toNumber(value);
+        if (n === null) return undefined;
+        out[key] = clamp(n, spec.min, spec.max);
+      }
+      return out;
+    }
+    case "stringRecord": {
+      if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+      const out: Record<string, string> = {};
+      for (const [key, value] of Object.entries(raw)) {
+        const text = toText(value);
+        if (text === null) return undefined;
+        out[key] = text;
+      }
+      return out;
+    }
+  }
+}
+
+function describeSpec(spec: FieldSpec): string {
+  switch (spec.type) {
+    case "enum":
+      return `one of ${spec.values.map(v => `"${v}"`).join(", ")}`;
+    case "number":
+      return spec.min !== undefined && spec.max !== undefined
+        ? `${spec.integer ? "an integer" : "a number"} from ${spec.min} to ${spec.max}`
+        : "a number";
+    case "stringArray":
+      return "an array of strings";
+    case "numberArray":
+      return "an array of numbers";
+    case "numberRecord":
+      return "an object mapping names to numbers";
+    case "stringRecord":
+      return "an object mapping names to strings";
+    default:
+      return "a string";
+  }
+}
+
+export function validateOutput<T>(parsed: unknown, schema: OutputSchema<T>): { value: T | null; issues: string[] } {
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { value: null, issues: ["response did not contain a JSON object"] };
+  }
+  const source = parsed as Record<string, unknown>;
+  const value: Record<string, unknown> = {};
+  const issues: string[] = [];
+  let missingRequired = false;
+
+  for (const [key, spec] of Object.entries(schema.fields) as [string, FieldSpec][]) {
+    const raw = source[key];
+    if (raw === undefined || raw === null) {
+      if (spec.required) {
+        issues.push(`"${key}" is required (${describeSpec(spec)})`);
+        missingRequired = true;
+      }
+      value[key] = emptyValue(spec);
+      continue;
+    }
+    const coerced = coerceField(raw, spec);
+    if (coerced === undefined) {
+      issues.push(`"${key}" must be ${describeSpec(spec)}, got ${JSON.stringify(raw).slice(0, 80)}`);
+      if (spec.required) missingRequired = true;
+      value[key] = emptyValue(spec);
+    } else {
+      value[key] = coerced;
+    }
+  }
+
+  return { value: missingRequired ? null : value as T, issues };
+}
+
+export function describeSchema<T>(schema: OutputSchema<T>): string {
+  return (Object.entries(schema.fields) as [string, FieldSpec][])
+    .map(([key, spec]) => `- "${key}": ${describeSpec(spec)}${spec.required ? " (required)" : ""}`)
+    .join("\n");
+}
+
+/**
+ * Calls a model that must answer with JSON, validates the reply against `schema` and, if it
+ * does not validate, re-prompts once with the validation errors. Every failed validation is
+ * recorded in `ctx.validationFailures`, repaired or not, instead of being masked by defaults.
+ */
+export async function callModelJson<T>(
+  schema: OutputSchema<T>,
+  stage: string,
+  model: string,
+  systemPrompt: string,
+  userPrompt: string,
+  maxTokens: number,
+  ctx: RunContext,
+  options: CallOptions = {}
+): Promise<SchemaResult<T>> {
+  const raw = await callModel(model, systemPrompt, userPrompt, maxTokens, ctx, options);
+  const first = validateOutput(parseJsonFromResponse(raw), schema);
+  if (first.issues.length === 0) {
+    return { value: first.value, issues: [], repaired: false, raw };
+  }
+
+  emitLog(ctx, stage, `Output failed ${schema.name} schema (${first.issues.length} issues), requesting repair...`, "warning");
+
+  const repairPrompt = `${userPrompt}
+
+=== YOUR PREVIOUS REPLY ===
+${raw.slice(0, 2000)}
+
+=== VALIDATION ERRORS ===
+${first.issues.map(i => `- ${i}`).join("\n")}
+
+Reply again with ONLY a single valid JSON object with these fields:
+${describeSchema(schema)}`;
+
+  let repairedRaw = "";
+  try {
+    // Reformatting needs no further tool calls
+    repairedRaw = await callModel(model, systemPrompt, repairPrompt, maxTokens, ctx, { ...options, maxToolCalls: 0 });
+  } catch (error) {
+    // A failed repair call still leaves the first, partially valid reply
+    if (!(error instanceof ModelCallError)) throw error;
+  }
+  const second = validateOutput(parseJsonFromResponse(repairedRaw), schema);
+  const useSecond = second.value !== null && (first.value === null || second.issues.length <= first.issues.length);
+  const result = useSecond
+    ? { value: second.value, issues: second.issues, repaired: true, raw: repairedRaw }
+    : { value: first.value, issues: first.issues, repaired: false, raw };
+
+  ctx.validationFailures.push({
+    stage,
+    schema: schema.name,
+    issues: first.issues,
+    repaired: useSecond && second.issues.length === 0,
+    timestamp: Date.now()
+  });
+  return result;
+}
@@ -0,0 +1,260 @@
+import * as http from "http";
+import { randomUUID } from "crypto";
+import { NexusTier, ARDREvent, ChatMessage, Session } from "./ARDR_types";
+import { ARDRInstance, ARDRRunResult } from "./ARDR_pipeline";
+import { buildEvidenceLedger } from "./ARDR_stages";
+import { sessionFromMessages } from "./ARDR_session";
+import { collectCitations } from "./ARDR_retrieval";
+
+export const SERVER_MODELS: Record<string, NexusTier> = {
+  "ardr-low": "low",
+  "ardr-high": "high",
+  "ardr-max": "max"
+};
+
+// Requests are chat messages; anything much larger is a mistake or abuse
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+export interface ServerOptions {
+  port?: number;
+  host?: string;
+  debug?: boolean;
+  /** Larger request bodies are refused with 413 (default 1 MiB). */
+  maxBodyBytes?: number;
+  onRequest?: (model: string, prompt: string) => void;
+}
+
+// OpenAI clients may send content as an array of parts, e.g. [{ type: "text", text }]
+interface RequestMessage {
+  role: ChatMessage["role"];
+  content?: string | { type?: string; text?: string }[] | null;
+}
+
+interface ChatCompletionRequest {
+  model?: string;
+  messages?: RequestMessage[];
+  stream?: boolean;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code: string = "invalid_request_error") {
+    super(message);
+  }
+}
+
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+  const tooLarge = () => new HttpError(413, `Request body is larger than ${maxBytes} bytes`, "request_too_large");
+  if (Number(req.headers["content-length"]) > maxBytes) return Promise.reject(tooLarge());
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Drain the rest unread so the 413 can still be sent
+        req.off("data", onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+function sendSse(res: http.ServerResponse, payload: unknown): void {
+  res.write(`data: ${JSON.stringify(payload)}\n\n`);
+}
+
+/**
+ * Non-standard `ardr` field attached to completions so clients can inspect
+ * the evidence behind an answer. OpenAI clients simply ignore it.
+ */
+export function buildArdrExtension(result: ARDRRunResult) {
+  const { state } = result;
+  return {
+    tier: state.tier,
+    fast_path: result.fastPath,
+    task_type: state.budget.taskType,
+    uncertainty_score: state.verification.uncertaintyScore,
+    recurrence_count: state.recurrenceCount,
+    branches: state.branchOutputs.map(b => ({ name: b.branchName, confidence: b.confidence, failed: b.failed === true })),
+    evidence_ledger: result.fastPath ? null : buildEvidenceLedger(state),
+    sources: collectCitations(state.branchOutputs).map(c => ({ id: c.id, source: c.source, lines: c.lines })),
+    synthesis_judgement: state.judgement ? {
+      verdict: state.judgement.verdict,
+      winner: state.judgement.winner,
+      candidates: state.judgement.candidates.map(c => ({ index: c.index, model: c.model, failed: !!c.error })),
+      rejections: state.judgement.rejections
+    } : null,
+    cost_usd: result.cost.totalCost,
+    cache_hits: result.cost.cache.hits,
+    duration_ms: result.timing.durationMs
+  };
+}
+
+function toOpenAIUsage(result: ARDRRunResult) {
+  return {
+    prompt_tokens: result.usage.promptTokens,
+    completion_tokens: result.usage.completionTokens,
+    total_tokens: result.usage.totalTokens
+  };
+}
+
+/** Text of a message; array content keeps its text parts, and other parts are refused. */
+function messageText(message: RequestMessage): string {
+  const { content } = message;
+  if (content === undefined || content === null) return "";
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) throw new HttpError(400, "message content must be a string or an array of content parts");
+  return content.map(part => {
+    if (part?.type !== "text" || typeof part.text !== "string") {
+      throw new HttpError(400, `Unsupported content part "${part?.type}": only text parts are accepted`);
+    }
+    return part.text;
+  }).join("\n");
+}
+
+function parseChatRequest(raw: string): { model: string; tier: NexusTier; prompt: string; session: Session; stream: boolean } {
+  let body: ChatCompletionRequest;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+
+  const model = body.model || "ardr-high";
+  const tier = SERVER_MODELS[model];
+  if (!tier) {
+    throw new HttpError(404, `Unknown model "${model}". Use one of: ${Object.keys(SERVER_MODELS).join(", ")}`, "model_not_found");
+  }
+
+  if (body.messages !== undefined && (!Array.isArray(body.messages) || body.messages.some(m => !m || typeof m !== "object"))) {
+    throw new HttpError(400, "messages must be an array of message objects");
+  }
+  const messages: ChatMessage[] = (body.messages || []).map(m => ({ role: m.role, content: messageText(m) }));
+  const lastUser = [...messages].reverse().find(m => m.role === "user");
+  if (!lastUser || !lastUser.content.trim()) {
+    throw new HttpError(400, "messages must contain at least one non-empty user message");
+  }
+
+  return {
+    model,
+    tier,
+    prompt: lastUser.content,
+    session: sessionFromMessages(messages),
+    stream: body.stream === true
+  };
+}
+
+async function handleChatCompletion(
+  ardr: ARDRInstance,
+  options: ServerOptions,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const { model, tier, prompt, session, stream } = parseChatRequest(await readBody(req, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES));
+  options.onRequest?.(model, prompt);
+
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  });
+
+  // Standard request semantics: `Cache-Control: no-cache` asks for a fresh answer
+  const bypassCache = /\bno-(?:cache|store)\b/i.test(String(req.headers["cache-control"] || ""));
+
+  // A client that disconnects cancels its run rather than paying for an answer nobody reads
+  const cancel = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) cancel.abort();
+  });
+
+  if (!stream) {
+    const result = await ardr.run(prompt, { tier, session, debug: options.debug, signal: cancel.signal, bypassCache });
+    sendJson(res, 200, {
+      id,
+      object: "chat.completion",
+      created,
+      model,
+      choices: [{ index: 0, message: { role: "assistant", content: result.finalResponse }, finish_reason: "stop" }],
+      usage: toOpenAIUsage(result),
+      ardr: buildArdrExtension(result)
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive"
+  });
+  sendSse(res, chunk({ role: "assistant", content: "" }));
+
+  const onEvent = (event: ARDREvent) => {
+    if (event.type === "synthesis:token") sendSse(res, chunk({ content: event.token }));
+  };
+
+  try {
+    const result = await ardr.run(prompt, { tier, session, debug: options.debug, listeners: [onEvent], signal: cancel.signal, bypassCache });
+    sendSse(res, { ...chunk({}, "stop"), usage: toOpenAIUsage(result), ardr: buildArdrExtension(result) });
+  } catch (error: any) {
+    sendSse(res, { error: { message: error.message, type: "server_error" } });
+  }
+  res.write("data: [DONE]\n\n");
+  res.end();
+}
+
+export function createServer(ardr: ARDRInstance, options: ServerOptions = {}): http.Server {
+  return http.createServer(async (req, res) => {
+    const path = (req.url || "/").split("?")[0];
+    try {
+      if (req.method === "GET" && path === "/v1/models") {
+        sendJson(res, 200, {
+          object: "list",
+          data: Object.keys(SERVER_MODELS).map(id => ({ id, object: "model", created: 0, owned_by: "ardr" }))
+        });
+        return;
+      }
+
+      if (req.method === "POST" && path === "/v1/chat/completions") {
+        await handleChatCompletion(ardr, options, req, res);
+        return;
+      }
+
+      throw new HttpError(404, `No route for ${req.method} ${path}`, "not_found");
+    } catch (error: any) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      const code = error instanceof HttpError ? error.code : "server_error";
+      sendJson(res, status, { error: { message: error.message, type: code } });
+    }
+  });
+}
+
+export function startServer(ardr: ARDRInstance, options: ServerOptions = {}): Promise<http.Server> {
+  const server = createServer(ardr, options);
+  const port = options.port ?? 8787;
+  const host = options.host || "127.0.0.1";
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve(server));
+  });
+}
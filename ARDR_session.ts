@@ -0,0 +1,117 @@
+import * as fs from "fs";
+import { ChatMessage, RunContext, Session, SessionTurn, SessionUsage, TokenUsage } from "./ARDR_types";
+import { callModel, ModelCallError } from "./ARDR_utils";
+import { emitLog } from "./ARDR_events";
+import { estimateTokens } from "./ARDR_costs";
+
+const KEEP_RECENT_TURNS = 4;
+
+function emptySessionUsage(): SessionUsage {
+  return { runs: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+export function createSession(maxTokens: number = 3000): Session {
+  return { turns: [], summary: "", maxTokens, usage: emptySessionUsage() };
+}
+
+export function addTurn(session: Session, role: SessionTurn["role"], content: string): void {
+  session.turns.push({ role, content, timestamp: Date.now() });
+}
+
+export function addSessionUsage(session: Session, usage: TokenUsage, cost: number): void {
+  session.usage.runs++;
+  session.usage.promptTokens += usage.promptTokens;
+  session.usage.completionTokens += usage.completionTokens;
+  session.usage.totalTokens += usage.totalTokens;
+  session.usage.cost += cost;
+}
+
+export function clearSession(session: Session): void {
+  session.turns = [];
+  session.summary = "";
+}
+
+/**
+ * Builds a session from an OpenAI-style message list, treating everything before the
+ * last user message as prior conversation.
+ */
+export function sessionFromMessages(messages: ChatMessage[], maxTokens?: number): Session {
+  const session = createSession(maxTokens);
+  const lastUser = messages.map(m => m.role).lastIndexOf("user");
+  messages.slice(0, Math.max(lastUser, 0)).forEach(m => {
+    if (m.role === "user" || m.role === "assistant") addTurn(session, m.role, m.content);
+  });
+  return session;
+}
+
+export function formatTranscript(session: Pick<Session, "turns" | "summary">): string {
+  const parts: string[] = [];
+  if (session.summary) {
+    parts.push(`[Summary of earlier conversation]\n${session.summary}`);
+  }
+  session.turns.forEach(t => {
+    parts.push(`${t.role === "user" ? "User" : "ARDR"}: ${t.content}`);
+  });
+  return parts.join("\n\n");
+}
+
+export function withConversation(prompt: string, conversation: string): string {
+  if (!conversation) return prompt;
+  return `=== CONVERSATION SO FAR ===
+${conversation}
+
+=== CURRENT MESSAGE ===
+${prompt}`;
+}
+
+/**
+ * Folds older turns into the running summary with the condenser model once the
+ * transcript no longer fits the session's token budget. Recent turns stay verbatim.
+ */
+export async function compactSession(session: Session, ctx: RunContext): Promise<boolean> {
+  if (estimateTokens(formatTranscript(session)) <= session.maxTokens) return false;
+  if (session.turns.length <= KEEP_RECENT_TURNS) return false;
+
+  const older = session.turns.slice(0, session.turns.length - KEEP_RECENT_TURNS);
+  emitLog(ctx, "Session", `Condensing ${older.length} earlier turns...`, "info");
+
+  let summary: string;
+  try {
+    summary = await callModel(
+      ctx.config.models.condenser,
+      `You are a Conversation Condenser. Summarize the conversation so a reasoning system can continue it:
+- Keep the user's goals, constraints, decisions and preferences
+- Keep code, numbers, names and definitions that later messages may refer to
+- Drop greetings and filler
+Keep output under ${Math.floor(session.maxTokens / 3)} tokens.`,
+      formatTranscript({ turns: older, summary: session.summary }),
+      Math.floor(session.maxTokens / 2),
+      ctx,
+      { fallbacks: ctx.config.fallbacks.condenser, stage: "session" }
+    );
+  } catch (error) {
+    if (error instanceof ModelCallError) return false;
+    throw error;
+  }
+
+  session.summary = summary.trim();
+  session.turns = session.turns.slice(-KEEP_RECENT_TURNS);
+  return true;
+}
+
+export function saveSession(session: Session, path: string): void {
+  fs.writeFileSync(path, JSON.stringify(session, null, 2), "utf8");
+}
+
+export function loadSession(path: string): Session {
+  const parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+  if (!Array.isArray(parsed.turns)) {
+    throw new Error(`${path} is not a saved ARDR session`);
+  }
+  return {
+    turns: parsed.turns,
+    summary: parsed.summary || "",
+    maxTokens: parsed.maxTokens || 3000,
+    usage: { ...emptySessionUsage(), ...parsed.usage }
+  };
+}
@@ -0,0 +1,187 @@
+import * as fs from "fs";
+import * as path from "path";
+import { RunContext, SandboxLanguage, ToolCallRecord, ToolDefinition } from "./ARDR_types";
+import { evaluateExpression } from "./ARDR_math";
+import { runCode, summarizeExecution } from "./ARDR_sandbox";
+import { listDocuments } from "./ARDR_retrieval";
+
+// Files the file tools read or scan in full; anything larger is refused or skipped
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_MATCHES = 50;
+const MAX_QUERY_CHARS = 200;
+
+const registry = new Map<string, ToolDefinition>();
+
+/**
+ * Adds (or replaces) a tool. Registered tools are offered to every branch through the
+ * tools API while `tools.enabled` is set, unless `branches.<name>.tools` lists a subset.
+ */
+export function registerTool(definition: ToolDefinition): void {
+  // The OpenAI tools API only accepts these names
+  if (!/^[a-zA-Z0-9_-]{1,64}$/.test(definition.name)) {
+    throw new Error(`Invalid tool name "${definition.name}": use up to 64 letters, digits, "-" or "_"`);
+  }
+  registry.set(definition.name, definition);
+}
+
+export function unregisterTool(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listTools(): ToolDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Tools offered to a branch; none while tools are disabled. Unknown names and tools not
+ * available in this run are ignored.
+ */
+export function resolveBranchTools(branchName: string, ctx: RunContext): ToolDefinition[] {
+  if (!ctx.config.tools.enabled) return [];
+  const names = ctx.config.branches[branchName]?.tools;
+  const tools = names
+    ? names.map(name => registry.get(name)).filter((tool): tool is ToolDefinition => tool !== undefined)
+    : listTools();
+  return tools.filter(tool => !tool.available || tool.available(ctx));
+}
+
+export function formatToolCall(record: ToolCallRecord, maxChars: number = 300): string {
+  const result = record.result.replace(/\s+/g, " ").trim();
+  return `${record.tool}(${record.arguments}) ${record.failed ? "failed:" : "->"} ${result.length > maxChars ? `${result.slice(0, maxChars)}...` : result}`;
+}
+
+/**
+ * Resolves a path the model gave against `tools.root`. Paths that leave the root, directly
+ * or through a symlink, are refused.
+ */
+function resolveInRoot(ctx: RunContext, requested: string): { root: string; full: string } {
+  const root = fs.realpathSync(path.resolve(ctx.config.tools.root));
+  const target = path.resolve(root, requested || ".");
+  const full = fs.existsSync(target) ? fs.realpathSync(target) : target;
+  const relative = path.relative(root, full);
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`${requested} is outside the allowed directory`);
+  }
+  if (!fs.existsSync(full)) throw new Error(`${requested} does not exist`);
+  return { root, full };
+}
+
+function readText(file: string): string | null {
+  if (fs.statSync(file).size > MAX_FILE_BYTES) return null;
+  const text = fs.readFileSync(file, "utf8");
+  return text.slice(0, 1000).includes("\u0000") ? null : text;
+}
+
+registerTool({
+  name: "calculator",
+  description: "Evaluates an arithmetic expression exactly (rationals and big integers). Supports + - * / ^ ! %, parentheses, sqrt, cbrt, abs, floor, ceil, round, exp, ln, log, sin, cos, tan, min, max, gcd, lcm, pi and e.",
+  parameters: {
+    type: "object",
+    properties: { expression: { type: "string", description: "For example (2^61 - 1) / 7 or sqrt(2) * pi" } },
+    required: ["expression"]
+  },
+  run(args) {
+    if (typeof args.expression !== "string" || !args.expression.trim()) throw new Error("expression must be a non-empty string");
+    return `${args.expression} = ${evaluateExpression(args.expression)}`;
+  }
+});
+
+registerTool({
+  name: "read_file",
+  description: "Reads a text file inside the working directory, with line numbers. Use start_line and end_line for part of a long file.",
+  parameters: {
+    type: "object",
+    properties: {
+      path: { type: "string", description: "Relative to the working directory" },
+      start_line: { type: "integer", minimum: 1 },
+      end_line: { type: "integer", minimum: 1 }
+    },
+    required: ["path"]
+  },
+  run(args, ctx) {
+    if (typeof args.path !== "string") throw new Error("path must be a string");
+    const { full } = resolveInRoot(ctx, args.path);
+    if (!fs.statSync(full).isFile()) throw new Error(`${args.path} is not a file`);
+    const text = readText(full);
+    if (text === null) throw new Error(`${args.path} is binary or larger than ${MAX_FILE_BYTES} bytes`);
+
+    const lines = text.split(/\r?\n/);
+    const start = Math.max(1, Number(args.start_line) || 1);
+    const end = Math.min(lines.length, Number(args.end_line) || lines.length);
+    if (start > end) throw new Error(`${args.path} has ${lines.length} lines`);
+    return [
+      `${args.path} (lines ${start}-${end} of ${lines.length})`,
+      ...lines.slice(start - 1, end).map((line, i) => `${start + i}: ${line}`)
+    ].join("\n");
+  }
+});
+
+// The text is matched literally: a model-written regular expression could backtrack for
+// minutes on the main thread, where no timeout can interrupt it
+registerTool({
+  name: "search_files",
+  description: `Searches the text files inside the working directory for a piece of text (matched literally, not as a regular expression) and lists matching lines as path:line: text (at most ${MAX_MATCHES}).`,
+  parameters: {
+    type: "object",
+    properties: {
+      text: { type: "string", description: `Text to find, at most ${MAX_QUERY_CHARS} characters` },
+      path: { type: "string", description: "File or directory to search, relative to the working directory (default: all of it)" },
+      ignore_case: { type: "boolean" }
+    },
+    required: ["text"]
+  },
+  run(args, ctx) {
+    if (typeof args.text !== "string" || !args.text) throw new Error("text must be a non-empty string");
+    if (args.text.length > MAX_QUERY_CHARS) throw new Error(`text must be at most ${MAX_QUERY_CHARS} characters`);
+    const fold = (value: string) => args.ignore_case ? value.toLowerCase() : value;
+    const query = fold(args.text);
+    const { root, full } = resolveInRoot(ctx, typeof args.path === "string" ? args.path : ".");
+    const files = fs.statSync(full).isDirectory() ? listDocuments(full) : [full];
+
+    const matches: string[] = [];
+    let total = 0;
+    for (const file of files) {
+      const text = readText(file);
+      if (text === null) continue;
+      text.split(/\r?\n/).forEach((line, i) => {
+        if (!fold(line).includes(query)) return;
+        total++;
+        if (matches.length < MAX_MATCHES) matches.push(`${path.relative(root, file)}:${i + 1}: ${line.trim().slice(0, 200)}`);
+      });
+    }
+    if (total === 0) return `No matches for "${args.text}" in ${files.length} file(s)`;
+    return [...matches, ...(total > matches.length ? [`(${total - matches.length} more matches not shown)`] : [])].join("\n");
+  }
+});
+
+registerTool({
+  name: "run_code",
+  description: "Runs a self-contained program in a sandbox without network access and returns its exit status and output. Print what you need to see.",
+  // Offered only where code execution is enabled; the program is not limited to tools.root
+  available: ctx => ctx.config.execution.enabled,
+  parameters: {
+    type: "object",
+    properties: {
+      language: { type: "string", enum: ["python", "javascript", "typescript"] },
+      code: { type: "string" }
+    },
+    required: ["language", "code"]
+  },
+  async run(args, ctx, branch) {
+    // Direct callers (getTool("run_code").run) bypass resolveBranchTools
+    if (!ctx.config.execution.enabled) throw new Error("code execution is disabled in this configuration");
+    if (!["python", "javascript", "typescript"].includes(args.language)) throw new Error("language must be python, javascript or typescript");
+    if (typeof args.code !== "string" || !args.code.trim()) throw new Error("code must be a non-empty string");
+
+    const result = await runCode(args.language as SandboxLanguage, args.code, ctx.config.execution, branch);
+    return [
+      summarizeExecution(result),
+      ...(result.stdout.trim() ? ["stdout:", result.stdout.trim()] : []),
+      ...(result.stderr.trim() && !result.passed ? ["stderr:", result.stderr.trim().split("\n").slice(-15).join("\n")] : [])
+    ].join("\n");
+  }
+});
@@ -0,0 +1,270 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ARDRState,
+  Attachment,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  NexusTier,
+  PipelineConfig,
+  RetrievalIndex,
+  RetrievedChunk,
+  TraceCall,
+  TraceRecorder,
+  TraceSearch
+} from "./ARDR_types";
+
+export const TRACE_VERSION = 1;
+
+export interface TraceHeader {
+  type: "run";
+  version: number;
+  runId: string;
+  prompt: string;
+  tier: NexusTier;
+  conversation: string;
+  /** Files attached to the prompt, as read at the time of the run. */
+  attachments?: Attachment[];
+  config: PipelineConfig;
+  startedAt: number;
+}
+
+export interface TraceResult {
+  type: "result";
+  state: ARDRState;
+  fastPath: boolean;
+  finishedAt: number;
+}
+
+export interface TraceFailure {
+  type: "error";
+  message: string;
+  finishedAt: number;
+}
+
+export type TraceLine =
+  | TraceHeader
+  | ({ type: "call"; seq: number } & TraceCall)
+  | ({ type: "search" } & TraceSearch)
+  | TraceResult
+  | TraceFailure;
+
+export interface LoadedTrace {
+  header: TraceHeader;
+  calls: (TraceCall & { seq: number })[];
+  /** Document library searches in the order they ran; empty for runs without retrieval. */
+  searches: TraceSearch[];
+  result: TraceResult | null;
+  failure: TraceFailure | null;
+}
+
+export interface TraceWriter extends TraceRecorder {
+  file: string;
+  finish(state: ARDRState, fastPath: boolean): void;
+  fail(error: Error): void;
+}
+
+// ARDRState holds Maps (branch scores, shared artifacts), which JSON would turn into {}
+function encode(_key: string, value: unknown): unknown {
+  return value instanceof Map ? { __map: Array.from(value.entries()) } : value;
+}
+
+function decode(_key: string, value: any): unknown {
+  return value && typeof value === "object" && Array.isArray(value.__map) ? new Map(value.__map) : value;
+}
+
+export function traceFileName(dir: string, runId: string, startedAt: number = Date.now()): string {
+  const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, "-");
+  return path.join(dir, `${stamp}-${runId.slice(0, 8)}.jsonl`);
+}
+
+/**
+ * Appends one JSON line per event of a run: the header with the effective config, every
+ * model call attempt and document search in completion order, then the final state or
+ * the error. Lines are written as they happen so a crashed run still leaves a usable trace.
+ */
+export function createTraceWriter(
+  file: string,
+  header: Omit<TraceHeader, "type" | "version">,
+  onError: (error: Error) => void = () => {}
+): TraceWriter {
+  let seq = 0;
+  let broken = false;
+  // A full disk must not fail the run itself: report once and stop writing
+  const write = (line: TraceLine) => {
+    if (broken) return;
+    try {
+      fs.appendFileSync(file, JSON.stringify(line, encode) + "\n", "utf8");
+    } catch (error: any) {
+      broken = true;
+      onError(error);
+    }
+  };
+
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  } catch (error: any) {
+    broken = true;
+    onError(error);
+  }
+
+  write({ type: "run", version: TRACE_VERSION, ...header });
+
+  return {
+    file,
+    recordCall(call: TraceCall): void {
+      write({ type: "call", seq: ++seq, ...call });
+    },
+    recordSearch(search: TraceSearch): void {
+      write({ type: "search", ...search });
+    },
+    finish(state: ARDRState, fastPath: boolean): void {
+      write({ type: "result", state, fastPath, finishedAt: Date.now() });
+    },
+    fail(error: Error): void {
+      write({ type: "error", message: error.message, finishedAt: Date.now() });
+    }
+  };
+}
+
+export function loadTrace(file: string): LoadedTrace {
+  const lines = fs.readFileSync(file, "utf8").split("\n").filter(line => line.trim());
+  const parsed = lines.map((line, i) => {
+    try {
+      return JSON.parse(line, decode) as TraceLine;
+    } catch {
+      throw new Error(`${file}:${i + 1} is not valid JSON`);
+    }
+  });
+
+  const header = parsed[0];
+  if (!header || header.type !== "run") {
+    throw new Error(`${file} is not an ARDR trace (missing run header)`);
+  }
+  if (header.version !== TRACE_VERSION) {
+    throw new Error(`${file} has trace version ${header.version}, expected ${TRACE_VERSION}`);
+  }
+
+  return {
+    header,
+    calls: parsed.filter((l): l is TraceCall & { type: "call"; seq: number } => l.type === "call"),
+    searches: parsed.filter((l): l is TraceSearch & { type: "search" } => l.type === "search").map(({ type, ...search }) => search),
+    result: parsed.find((l): l is TraceResult => l.type === "result") || null,
+    failure: parsed.find((l): l is TraceFailure => l.type === "error") || null
+  };
+}
+
+export interface ReplayStats {
+  exact: number;
+  approximate: number;
+  missing: number;
+}
+
+export interface ReplayProvider extends ModelProvider {
+  stats: ReplayStats;
+}
+
+class ReplayMissError extends Error {
+  // A 404 is not retried, so a missing response goes straight down the fallback chain
+  status = 404;
+}
+
+function requestKey(model: string, request: Pick<ModelRequest, "messages" | "maxTokens" | "temperature">): string {
+  return JSON.stringify([model, request.messages, request.maxTokens, request.temperature]);
+}
+
+function systemKey(model: string, request: Pick<ModelRequest, "messages">): string {
+  return JSON.stringify([model, request.messages.find(m => m.role === "system")?.content || ""]);
+}
+
+/**
+ * Serves recorded responses instead of calling models. A call is matched to the first
+ * unused recording with an identical request; when stage logic changed the prompt, it falls
+ * back to the first unused recording for the same model and system prompt. Recorded
+ * failures are re-thrown, so retry and fallback paths replay too.
+ */
+export function createReplayProvider(calls: TraceCall[]): ReplayProvider {
+  const used = new Set<number>();
+  const stats: ReplayStats = { exact: 0, approximate: 0, missing: 0 };
+
+  const take = (request: ModelRequest): ModelResponse => {
+    const exact = requestKey(request.model, request);
+    const loose = systemKey(request.model, request);
+    let index = calls.findIndex((c, i) => !used.has(i) && requestKey(c.model, c.request) === exact);
+    if (index !== -1) {
+      stats.exact++;
+    } else {
+      index = calls.findIndex((c, i) => !used.has(i) && systemKey(c.model, c.request) === loose);
+      if (index === -1) {
+        stats.missing++;
+        throw new ReplayMissError(`No recorded response for ${request.model}`);
+      }
+      stats.approximate++;
+    }
+
+    used.add(index);
+    const call = calls[index];
+    if (call.error) {
+      const error: any = new Error(call.error.message);
+      error.status = call.error.status;
+      throw error;
+    }
+    return call.response as ModelResponse;
+  };
+
+  return {
+    name: "replay",
+    cacheable: false,
+    stats,
+
+    async complete(request: ModelRequest): Promise<ModelResponse> {
+      return take(request);
+    },
+
+    async stream(request: ModelRequest, onToken: (token: string) => void): Promise<ModelResponse> {
+      const response = take(request);
+      response.content.split(/(?<=\s)/).forEach(token => onToken(token));
+      return response;
+    }
+  };
+}
+
+export interface ReplaySearchStats {
+  served: number;
+  missing: number;
+}
+
+export interface ReplayIndex extends RetrievalIndex {
+  stats: ReplaySearchStats;
+}
+
+/**
+ * Serves recorded document searches instead of searching the library, so a replay sees
+ * the passages the run saw even after the documents changed. A query is matched to the
+ * first unused recording of the same query; a query the run never made finds nothing.
+ */
+export function createReplayIndex(searches: TraceSearch[]): ReplayIndex {
+  const used = new Set<number>();
+  const stats: ReplaySearchStats = { served: 0, missing: 0 };
+  const recorded = searches.flatMap(s => s.results);
+
+  return {
+    files: new Set(recorded.map(r => r.source)).size,
+    chunks: recorded.length,
+    embedded: false,
+    warnings: [],
+    stats,
+
+    async search(query: string, limit: number): Promise<RetrievedChunk[]> {
+      const index = searches.findIndex((s, i) => !used.has(i) && s.query === query);
+      if (index === -1) {
+        stats.missing++;
+        return [];
+      }
+      used.add(index);
+      stats.served++;
+      return searches[index].results.slice(0, limit);
+    }
+  };
+}
@@ -6,8 +6,15 @@ export interface ReasoningBudget {
   complexity: "low" | "medium" | "high" | "extreme";
   riskScore: number;
   allowedDepth: number;
+  /** Inter-branch reflection rounds after stage B (from the tier). */
+  reflectionRounds: number;
+  /** Samples drawn per branch call (from the tier); agreement is measured when above 1. */
+  samples: number;
+  /** Tool calls each branch call may make (from the tier); 0 when tools are off. */
+  toolCalls: number;
   branches: string[];
   chiefModel: string;
+  maxCost?: number;
 }
 
 export interface TriStructurePack {
@@ -23,6 +30,26 @@ export interface BranchOutput {
   notes: string;
   contradictions: string[];
   confidence: number;
+  failed?: boolean;
+  error?: string;
+  /** Number of samples the output was chosen from. */
+  samples?: number;
+  /** Mean pairwise agreement (0-1) of the samples' hypotheses; absent for a single sample. */
+  agreement?: number;
+  /** Retrieved passages the output cites as [S#]. */
+  citations?: Citation[];
+  /** Tools the branch called before answering, in call order. */
+  toolCalls?: ToolCallRecord[];
+}
+
+export interface Citation {
+  /** Stable within a run: the same passage has the same id in every branch. */
+  id: string;
+  /** Document path relative to the indexed directory. */
+  source: string;
+  /** First and last line of the passage in the document (1-based). */
+  lines: [number, number];
+  text: string;
 }
 
 export interface ScratchpadEntry {
@@ -32,9 +59,105 @@ export interface ScratchpadEntry {
   type: "hypothesis" | "artifact" | "note" | "contradiction";
 }
 
+export interface ReflectionDelta {
+  branch: string;
+  revised: boolean;
+  addedHypotheses: string[];
+  droppedHypotheses: string[];
+  confidenceBefore: number;
+  confidenceAfter: number;
+  /** Names of the shared artifacts the branch published this round. */
+  publishedArtifacts: string[];
+  error?: string;
+}
+
+export interface ReflectionRound {
+  round: number;
+  deltas: ReflectionDelta[];
+  durationMs: number;
+}
+
 export interface Scratchpad {
   entries: ScratchpadEntry[];
   sharedArtifacts: Map<string, string>;
+  reflections: ReflectionRound[];
+}
+
+export type SandboxLanguage = "javascript" | "typescript" | "python";
+
+export interface ExecutionResult {
+  branch: string;
+  language: SandboxLanguage;
+  code: string;
+  passed: boolean;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  durationMs: number;
+  /** Why the block could not be run at all (e.g. no interpreter); not a failure of the code. */
+  skipped?: string;
+}
+
+export interface MathCheck {
+  /** Branch that made the claim, or "formalizer". */
+  source: string;
+  claim: string;
+  status: "verified" | "refuted";
+  method: "exact" | "numeric" | "symbolic";
+  detail: string;
+}
+
+export type ClaimStatus = "supported" | "refuted" | "contested" | "unverified";
+
+export interface ClaimNode {
+  /** "C1", "C2", ... in the order the hypotheses were shown to the verifiers. */
+  id: string;
+  branch: string;
+  text: string;
+  status: ClaimStatus;
+}
+
+export interface EvidenceNode {
+  /** "E1", ... for counterexamples, "M1", ... for math checks. */
+  id: string;
+  kind: "counterexample" | "math";
+  text: string;
+}
+
+export interface ClaimEdge {
+  /** A claim id (support or attack by another branch) or an evidence id. */
+  from: string;
+  to: string;
+  kind: "supports" | "attacks";
+}
+
+export interface EvidenceGraph {
+  claims: ClaimNode[];
+  evidence: EvidenceNode[];
+  edges: ClaimEdge[];
+}
+
+export interface UncertaintySignals {
+  /** The consistency scorer's own uncertainty. */
+  verifier: number | null;
+  /** 1 - the mean branch confidence. */
+  confidence: number | null;
+  /** 1 - the mean agreement between samples of the same branch. */
+  samples: number | null;
+  /** Share of cross-branch claim links that are attacks. */
+  branches: number | null;
+  /** Share of claims refuted (contested claims count half). */
+  claims: number | null;
+  /** Share of executed code blocks and math claims that failed. */
+  checks: number | null;
+}
+
+export interface UncertaintyBreakdown {
+  signals: UncertaintySignals;
+  /** Weighted mean of the available signals, before calibration. */
+  raw: number;
+  calibrated: boolean;
 }
 
 export interface VerificationResult {
@@ -44,10 +167,17 @@ export interface VerificationResult {
   provenInvariants: string[];
   uncertaintyScore: number;
   weakPoints: string[];
+  /** Sandboxed runs of the code found in branch artifacts. */
+  execution: ExecutionResult[];
+  /** Equations and numeric claims checked by the local math checker. */
+  mathChecks: MathCheck[];
+  graph: EvidenceGraph;
+  uncertainty: UncertaintyBreakdown;
 }
 
 export interface ARDRState {
   originalPrompt: string;
+  conversation: string;
   tier: NexusTier;
   budget: ReasoningBudget;
   triPack: TriStructurePack;
@@ -56,9 +186,479 @@ export interface ARDRState {
   verification: VerificationResult;
   recurrenceCount: number;
   finalResponse: string;
+  validationFailures: ValidationFailure[];
+  degradations: string[];
+  /** Candidate syntheses and the judge's verdict, when the tier synthesizes more than one. */
+  judgement?: SynthesisJudgement;
+  /** Files attached to the prompt, and whether each was summarized to fit. */
+  attachments?: AttachedFile[];
+}
+
+export interface Attachment {
+  /** As the user gave it, or relative to the working directory for files found by a glob. */
+  path: string;
+  text: string;
+}
+
+export interface AttachedFile {
+  path: string;
+  lines: number;
+  chars: number;
+  /** Condensed by the condenser model instead of included verbatim. */
+  summarized: boolean;
+}
+
+export interface SynthesisCandidate {
+  /** 1-based, as the judge sees it. */
+  index: number;
+  model: string;
+  response: string;
+  error?: string;
+}
+
+export interface SynthesisJudgement {
+  candidates: SynthesisCandidate[];
+  /** "fallback" when the judge was unavailable and the first usable candidate was kept. */
+  verdict: "pick" | "merge" | "fallback";
+  /** The candidate returned as the answer; null for a merged answer. */
+  winner: number | null;
+  rejections: { candidate: number; reason: string }[];
+  notes: string;
+}
+
+export interface ValidationFailure {
+  stage: string;
+  schema: string;
+  issues: string[];
+  repaired: boolean;
+  timestamp: number;
+}
+
+export interface SessionTurn {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: number;
+}
+
+export interface SessionUsage extends TokenUsage {
+  runs: number;
+  cost: number;
+}
+
+export interface Session {
+  turns: SessionTurn[];
+  summary: string;
+  maxTokens: number;
+  usage: SessionUsage;
 }
 
 export interface BranchConfig {
   model: string;
   systemPrompt: string;
 }
+
+export interface BranchDefinition extends BranchConfig {
+  name: string;
+  description: string;
+  parseOutput?: (response: string, branchName: string) => BranchOutput | null;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  /** Calls requested by an assistant message. */
+  toolCalls?: ToolCall[];
+  /** The call a tool message answers. */
+  toolCallId?: string;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON text, as the model wrote it. */
+  arguments: string;
+}
+
+/** A tool as the model sees it; `parameters` is a JSON Schema object. */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolDefinition extends ToolSpec {
+  /** Whether the tool is offered in this run; always when absent. */
+  available?(ctx: RunContext): boolean;
+  /**
+   * Runs a call with the parsed arguments. The returned text is what the model reads;
+   * a thrown error is shown to the model as the result, so it can correct the call.
+   */
+  run(args: Record<string, any>, ctx: RunContext, branch: string): Promise<string> | string;
+}
+
+export interface ToolCallRecord {
+  tool: string;
+  arguments: string;
+  result: string;
+  /** The call failed (unknown tool, invalid arguments, thrown error or over the limit). */
+  failed: boolean;
+  durationMs: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  stage: string;
+  branch?: string;
+  model: string;
+  cost: number | null;
+  estimated: boolean;
+  /** Served from the response cache: not paid for, and not counted in the run totals. */
+  cached: boolean;
+}
+
+export interface CostBreakdown {
+  calls: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface CostReport {
+  totalCost: number;
+  totalTokens: number;
+  unpricedModels: string[];
+  byStage: Record<string, CostBreakdown>;
+  byBranch: Record<string, CostBreakdown>;
+  byModel: Record<string, CostBreakdown>;
+  /** Calls served from the response cache and what they would have cost. */
+  cache: { hits: number; savedTokens: number; savedCost: number };
+}
+
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export interface ModelRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  tools?: ToolSpec[];
+  /** "none" asks for a final answer while the conversation still offers tools. */
+  toolChoice?: "auto" | "none";
+}
+
+export interface ModelResponse {
+  content: string;
+  usage?: TokenUsage;
+  /** Tools the model asked to call instead of (or besides) answering. */
+  toolCalls?: ToolCall[];
+}
+
+export interface ModelProvider {
+  name: string;
+  /** Endpoint the provider sends to; part of the response cache key with the name. */
+  baseURL?: string;
+  /** False keeps its answers out of the response cache (mock and replay providers). */
+  cacheable?: boolean;
+  complete(request: ModelRequest): Promise<ModelResponse>;
+  stream(request: ModelRequest, onToken: (token: string) => void): Promise<ModelResponse>;
+}
+
+export type LogLevel = "info" | "progress" | "success" | "warning" | "error" | "retry";
+
+export type StageName = "profiler" | "decomposition" | "branches" | "verification" | "recurrence" | "synthesis";
+
+export type ARDREvent =
+  | { type: "run:start"; prompt: string; tier: NexusTier }
+  | { type: "run:done"; durationMs: number; usage: TokenUsage; cost: CostReport }
+  | { type: "stage:start"; stage: StageName; title: string }
+  | { type: "stage:end"; stage: StageName; durationMs: number }
+  | { type: "branch:start"; branch: string; model: string }
+  | { type: "branch:done"; branch: string; output: BranchOutput }
+  | { type: "verification:scored"; verification: VerificationResult }
+  | { type: "reflection:round"; round: ReflectionRound }
+  | { type: "recurrence:pass"; pass: number; maxDepth: number; branches: string[] }
+  | { type: "synthesis:candidate"; candidate: SynthesisCandidate }
+  | { type: "synthesis:judged"; judgement: SynthesisJudgement }
+  | { type: "synthesis:start"; model: string }
+  | { type: "synthesis:token"; token: string }
+  | { type: "synthesis:done"; response: string }
+  | { type: "log"; stage: string; message: string; level: LogLevel }
+  | { type: "debug"; title: string; lines: string[] }
+  | { type: "error"; message: string; model?: string };
+
+export type ARDRListener = (event: ARDREvent) => void;
+
+export interface BranchSettings {
+  /** False leaves the branch out of every run; the profiler is not offered it. */
+  enabled?: boolean;
+  model?: string;
+  fallbackModels?: string[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Tools offered to the branch; every registered tool when absent. */
+  tools?: string[];
+}
+
+export interface TierSettings {
+  label: string;
+  chiefModel: string;
+  fallbackModels: string[];
+  maxDepth: number;
+  reflectionRounds: number;
+  samples: number;
+  synthesisMaxTokens: number;
+  /** Candidate answers drafted and judged in the final stage; 1 streams a single synthesis. */
+  synthesisCandidates: number;
+  /** Models that draft the candidates in turn; empty for the chief alone. */
+  candidateModels: string[];
+  /** Tool calls a branch may make per call when tools are enabled. */
+  toolCalls: number;
+}
+
+export interface RetrySettings {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ExecutionSettings {
+  enabled: boolean;
+  /** Branches whose artifacts are executed. */
+  branches: string[];
+  maxBlocks: number;
+  timeoutMs: number;
+  memoryMb: number;
+  maxOutputBytes: number;
+}
+
+export interface ToolSettings {
+  enabled: boolean;
+  /** Directory the file tools may read and search; nothing outside it is reachable. */
+  root: string;
+  /** Model rounds of a branch call's tool loop, the final answer included. */
+  maxSteps: number;
+  /** Longer tool results are cut before the model reads them. */
+  maxResultChars: number;
+  timeoutMs: number;
+}
+
+export interface AttachmentSettings {
+  /** Larger files are not attached. */
+  maxFileBytes: number;
+  /** Files attached per run; a directory or glob beyond it is cut off. */
+  maxFiles: number;
+  /** Attached text included verbatim up to this many characters; larger files are summarized. */
+  inlineChars: number;
+  /** Size of the parts a large file is summarized in. */
+  chunkChars: number;
+  /** Output tokens of each part's summary. */
+  summaryMaxTokens: number;
+}
+
+export interface RetrievalSettings {
+  enabled: boolean;
+  /** Directory of documents to index (markdown, text, code; PDFs with the pdf-parse package). */
+  dir: string;
+  extensions: string[];
+  /** Larger files are skipped. */
+  maxFileBytes: number;
+  chunkChars: number;
+  /** Characters repeated at the start of the next chunk. */
+  chunkOverlap: number;
+  /** Passages returned per search. */
+  topK: number;
+  /** Search rounds a branch may request before it answers. */
+  maxSearches: number;
+  /** Branches given the document library. */
+  branches: string[];
+  /** An OpenAI-compatible embeddings endpoint (such as a local Ollama) blended with BM25. */
+  embeddings?: { baseUrl: string; model: string; weight: number };
+}
+
+export interface RetrievedChunk {
+  source: string;
+  lines: [number, number];
+  text: string;
+  score: number;
+}
+
+export interface RetrievalIndex {
+  files: number;
+  chunks: number;
+  embedded: boolean;
+  /** Files that could not be indexed, and why. */
+  warnings: string[];
+  search(query: string, limit: number): Promise<RetrievedChunk[]>;
+}
+
+export interface MathSettings {
+  enabled: boolean;
+  /** Task types whose claims are checked. */
+  taskTypes: string[];
+  /** Claims checked per branch (and for the Formalizer output). */
+  maxClaims: number;
+}
+
+/** Platt scaling fitted on eval outcomes: P(correct) = sigmoid(slope * raw + intercept). */
+export interface UncertaintyCalibration {
+  slope: number;
+  intercept: number;
+  /** Eval items the fit was computed from. */
+  samples: number;
+}
+
+export interface UncertaintySettings {
+  /** Temperature of every sample when a branch is sampled more than once. */
+  temperature: number;
+  weights: Record<keyof UncertaintySignals, number>;
+  calibration?: UncertaintyCalibration;
+}
+
+export interface DeadlineSettings {
+  /** Wall-clock budget of a run; 0 for none. */
+  runMs: number;
+  /** Kept free for the final synthesis: earlier stages must finish before it. */
+  synthesisReserveMs: number;
+  /** Kept free for a verification pass: branches and recurrence must finish before it. */
+  verificationReserveMs: number;
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  /** How long a stored response is served; 0 keeps it until it is evicted. */
+  ttlMs: number;
+  /** Responses held in memory; the least recently used is evicted first. */
+  maxEntries: number;
+  /** Size of the on-disk store; the oldest files are evicted past it. */
+  maxBytes: number;
+}
+
+export interface PipelineConfig {
+  models: {
+    profiler: string;
+    cheap: string;
+    condenser: string;
+  };
+  fallbacks: {
+    profiler: string[];
+    cheap: string[];
+    condenser: string[];
+  };
+  branches: Record<string, BranchSettings>;
+  tiers: Record<NexusTier, TierSettings>;
+  temperature: number;
+  maxTokens: {
+    profiler: number;
+    decomposition: number;
+    branch: number;
+    verification: number;
+    controller: number;
+    conversation: number;
+  };
+  thresholds: {
+    uncertainty: number;
+    minBranchScore: number;
+  };
+  pricing: Record<string, ModelPrice>;
+  maxRunCost?: number;
+  retry: RetrySettings;
+  timeouts: {
+    call: number;
+    synthesis: number;
+  };
+  execution: ExecutionSettings;
+  math: MathSettings;
+  uncertainty: UncertaintySettings;
+  deadline: DeadlineSettings;
+  cache: CacheSettings;
+  retrieval: RetrievalSettings;
+  tools: ToolSettings;
+  attachments: AttachmentSettings;
+}
+
+export interface CallOptions {
+  temperature?: number;
+  fallbacks?: string[];
+  timeoutMs?: number;
+  stage?: string;
+  branch?: string;
+  /** Offered to the model through the tools API; `callModel` runs the calls it makes. */
+  tools?: ToolDefinition[];
+  /** Tool calls allowed before the model must answer (default: none). */
+  maxToolCalls?: number;
+  onToolCall?: (record: ToolCallRecord) => void;
+}
+
+/** "deadline": the run's deadline for the calling stage had passed, so nothing was sent. */
+export type ModelFailureKind = "timeout" | "rate_limit" | "server" | "network" | "client" | "deadline";
+
+export interface RunContext {
+  debug: boolean;
+  config: PipelineConfig;
+  emit: (event: ARDREvent) => void;
+  usage: TokenUsage;
+  usageRecords: UsageRecord[];
+  validationFailures: ValidationFailure[];
+  /** What the run left out to meet its deadline (dropped branches, skipped passes). */
+  degradations: string[];
+  /** Cancels the run: pending calls are aborted and the run rejects with RunCancelledError. */
+  signal?: AbortSignal;
+  /** Wall-clock deadline of the run (epoch ms); see `stageDeadline`. */
+  deadline?: number;
+  /** Receives every model call attempt when the run is being traced. */
+  trace?: TraceRecorder;
+  /** Answers every call of the run instead of the routed providers (used by replay). */
+  provider?: ModelProvider;
+  /** Serves and stores `callModel` responses; absent when caching is off. */
+  cache?: ResponseCache;
+  /** Skip cache reads for this run; fresh responses are still stored. */
+  bypassCache?: boolean;
+  /** The document library of branches listed in `retrieval.branches`. */
+  retrieval?: RetrievalIndex;
+}
+
+export interface CachedResponse {
+  /** The model that answered, which may be a fallback of the one requested. */
+  model: string;
+  response: ModelResponse;
+  storedAt: number;
+}
+
+export interface ResponseCache {
+  get(key: string): CachedResponse | null;
+  set(key: string, entry: CachedResponse): void;
+  clear(): void;
+  stats(): { entries: number; hits: number; misses: number; dir?: string };
+}
+
+export interface TraceCall {
+  model: string;
+  stage: string;
+  branch?: string;
+  request: { messages: ChatMessage[]; maxTokens: number; temperature: number };
+  response?: ModelResponse;
+  error?: { message: string; status?: number };
+  durationMs: number;
+  /** Served from the response cache rather than the provider. */
+  cached?: boolean;
+}
+
+/** One search of the document library, with the passages it returned. */
+export interface TraceSearch {
+  query: string;
+  limit: number;
+  results: RetrievedChunk[];
+}
+
+export interface TraceRecorder {
+  recordCall(call: TraceCall): void;
+  recordSearch(search: TraceSearch): void;
+}
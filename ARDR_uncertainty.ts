@@ -0,0 +1,189 @@
+import {
+  BranchOutput,
+  EvidenceGraph,
+  ExecutionResult,
+  MathCheck,
+  UncertaintyBreakdown,
+  UncertaintyCalibration,
+  UncertaintySettings,
+  UncertaintySignals
+} from "./ARDR_types";
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "it", "its", "this", "that", "these", "those",
+  "of", "to", "in", "on", "for", "with", "as", "by", "at", "from", "and", "or", "so", "then", "than",
+  "which", "who", "what", "has", "have", "had", "can", "will", "would", "should", "must", "may", "we", "they"
+]);
+
+function contentTerms(text: string): Set<string> {
+  const terms = text.toLowerCase().match(/[a-z]+|\d+(?:\.\d+)?/g) || [];
+  // Crude stemming is enough to match "returns" with "returned"; numbers are kept whole
+  return new Set(terms
+    .filter(t => !STOPWORDS.has(t))
+    .map(t => /^\d/.test(t) || t.length <= 4 ? t : t.replace(/(?:ing|ed|es|s)$/, "")));
+}
+
+// Overlap coefficient rather than Jaccard: a paraphrase that adds a clause still agrees
+function termOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(t => { if (b.has(t)) shared++; });
+  return shared / Math.min(a.size, b.size);
+}
+
+/**
+ * Agreement (0-1) between two hypothesis lists: each hypothesis is matched with its
+ * closest counterpart on the other side, in both directions.
+ */
+export function hypothesisAgreement(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+  const termsA = a.map(contentTerms);
+  const termsB = b.map(contentTerms);
+  const closest = (from: Set<string>[], to: Set<string>[]) =>
+    from.reduce((sum, terms) => sum + Math.max(...to.map(other => termOverlap(terms, other))), 0) / from.length;
+  return (closest(termsA, termsB) + closest(termsB, termsA)) / 2;
+}
+
+/**
+ * Mean pairwise agreement of several samples of one branch, and the index of the sample
+ * that agrees most with the rest (the one that represents the branch).
+ */
+export function sampleAgreement(samples: string[][]): { agreement: number; representative: number } {
+  if (samples.length < 2) return { agreement: 1, representative: 0 };
+  const totals = samples.map(() => 0);
+  let sum = 0;
+  let pairs = 0;
+  for (let i = 0; i < samples.length; i++) {
+    for (let j = i + 1; j < samples.length; j++) {
+      const agreement = hypothesisAgreement(samples[i], samples[j]);
+      totals[i] += agreement;
+      totals[j] += agreement;
+      sum += agreement;
+      pairs++;
+    }
+  }
+  return { agreement: sum / pairs, representative: totals.indexOf(Math.max(...totals)) };
+}
+
+const mean = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export interface UncertaintyInputs {
+  /** The consistency scorer's uncertainty, or null when it was unavailable. */
+  verifier: number | null;
+  branchOutputs: BranchOutput[];
+  graph: EvidenceGraph;
+  execution: ExecutionResult[];
+  mathChecks: MathCheck[];
+}
+
+/**
+ * Each signal is in [0, 1], higher meaning less trustworthy, and null when the run has
+ * nothing to measure it on.
+ */
+export function uncertaintySignals(inputs: UncertaintyInputs): UncertaintySignals {
+  const working = inputs.branchOutputs.filter(b => !b.failed);
+  const sampled = working.filter(b => b.agreement !== undefined).map(b => b.agreement as number);
+
+  const claimLinks = inputs.graph.edges.filter(e => e.from.startsWith("C"));
+  const { claims } = inputs.graph;
+  const executed = inputs.execution.filter(r => !r.skipped);
+  const checks = executed.length + inputs.mathChecks.length;
+  const failedChecks = executed.filter(r => !r.passed).length + inputs.mathChecks.filter(c => c.status === "refuted").length;
+
+  return {
+    verifier: inputs.verifier,
+    // With every branch failed there is no evidence at all
+    confidence: working.length === 0 ? 1 : 1 - (mean(working.map(b => b.confidence)) as number),
+    samples: sampled.length === 0 ? null : 1 - (mean(sampled) as number),
+    branches: claimLinks.length === 0 ? null : claimLinks.filter(e => e.kind === "attacks").length / claimLinks.length,
+    claims: claims.length === 0 ? null
+      : (claims.filter(c => c.status === "refuted").length + 0.5 * claims.filter(c => c.status === "contested").length) / claims.length,
+    checks: checks === 0 ? null : failedChecks / checks
+  };
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * The probability-of-error reading of a raw score: identity without a calibration,
+ * `1 - sigmoid(slope * raw + intercept)` with one.
+ */
+export function applyCalibration(raw: number, calibration?: UncertaintyCalibration): number {
+  return calibration ? 1 - sigmoid(calibration.slope * raw + calibration.intercept) : raw;
+}
+
+/**
+ * Combines the available signals into the score that gates recurrence: their weighted
+ * mean, calibrated when the config carries a fitted calibration.
+ */
+export function measureUncertainty(inputs: UncertaintyInputs, settings: UncertaintySettings): { score: number; breakdown: UncertaintyBreakdown } {
+  const signals = uncertaintySignals(inputs);
+  let weighted = 0;
+  let totalWeight = 0;
+  (Object.keys(signals) as (keyof UncertaintySignals)[]).forEach(name => {
+    const value = signals[name];
+    const weight = settings.weights[name] ?? 0;
+    if (value === null || weight <= 0) return;
+    weighted += weight * value;
+    totalWeight += weight;
+  });
+
+  const raw = totalWeight > 0 ? weighted / totalWeight : 0.5;
+  return {
+    score: applyCalibration(raw, settings.calibration),
+    breakdown: { signals, raw, calibrated: !!settings.calibration }
+  };
+}
+
+export function formatUncertaintySignals(breakdown: UncertaintyBreakdown): string {
+  const parts = Object.entries(breakdown.signals)
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `${name} ${(value as number).toFixed(2)}`);
+  return `raw ${breakdown.raw.toFixed(3)}${breakdown.calibrated ? " (calibrated)" : ""} from ${parts.join(", ") || "no signals"}`;
+}
+
+export const MIN_CALIBRATION_SAMPLES = 10;
+
+/**
+ * Fits Platt scaling of raw uncertainty against whether the answer was correct, with
+ * Platt's smoothed targets so a perfectly separated set still gives finite parameters.
+ * Null with fewer than MIN_CALIBRATION_SAMPLES points or when every answer had the
+ * same outcome.
+ */
+export function fitCalibration(points: { raw: number; correct: boolean }[]): UncertaintyCalibration | null {
+  const positives = points.filter(p => p.correct).length;
+  const negatives = points.length - positives;
+  if (points.length < MIN_CALIBRATION_SAMPLES || positives === 0 || negatives === 0) return null;
+
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+  let slope = 0;
+  let intercept = Math.log((positives + 1) / (negatives + 1));
+
+  // Newton's method on the logistic log-loss; two parameters, so the Hessian inverts by hand
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let gSlope = 0, gIntercept = 0, hSS = 1e-9, hSI = 0, hII = 1e-9;
+    points.forEach(p => {
+      const predicted = sigmoid(slope * p.raw + intercept);
+      const error = predicted - (p.correct ? high : low);
+      const w = predicted * (1 - predicted);
+      gSlope += error * p.raw;
+      gIntercept += error;
+      hSS += w * p.raw * p.raw;
+      hSI += w * p.raw;
+      hII += w;
+    });
+    const det = hSS * hII - hSI * hSI;
+    if (Math.abs(det) < 1e-12) break;
+    const stepSlope = (hII * gSlope - hSI * gIntercept) / det;
+    const stepIntercept = (hSS * gIntercept - hSI * gSlope) / det;
+    slope -= stepSlope;
+    intercept -= stepIntercept;
+    if (Math.abs(stepSlope) + Math.abs(stepIntercept) < 1e-9) break;
+  }
+
+  return { slope, intercept, samples: points.length };
+}
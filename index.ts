@@ -1,4 +1,25 @@
 export * from "./ARDR_types";
 export * from "./ARDR_models";
 export * from "./ARDR_utils";
+export * from "./ARDR_providers";
+export * from "./ARDR_costs";
+export * from "./ARDR_events";
+export * from "./ARDR_sandbox";
+export * from "./ARDR_math";
+export * from "./ARDR_graph";
+export * from "./ARDR_uncertainty";
+export * from "./ARDR_retrieval";
+export * from "./ARDR_tools";
+export * from "./ARDR_attachments";
+export * from "./ARDR_session";
+export * from "./ARDR_trace";
+export * from "./ARDR_cache";
+export * from "./ARDR_config";
+export * from "./ARDR_schemas";
+export * from "./ARDR_branches";
 export * from "./ARDR_stages";
+export * from "./ARDR_pipeline";
+export * from "./ARDR_eval";
+export * from "./ARDR_batch";
+export * from "./ARDR_server";
+export * from "./ARDR_repl";
@@ -15,16 +15,75 @@
  * OPTIONS:
  *   --tier low|high|max    Set reasoning tier (default: high)
  *   --debug                Show detailed debug output
+ *   --serve                Start the OpenAI-compatible HTTP server instead of the REPL
+ *   --port <n>             Server port (default: 8787)
+ *   --config <file>        Pipeline config (default: ./ardr.config.json|yaml if present)
+ *   --profile <name>       Use a named profile from the config file
+ *   --set key.path=value   Override a single config value (repeatable)
+ *   --max-cost <usd>       Per-run spend cap (skips recurrence / downgrades the chief)
+ *   --deadline <seconds>   Per-run wall-clock deadline (drops late branches, skips recurrence)
+ *   --docs <dir>           Let the World branch search a local document library and cite it
+ *   --exec                 Run the code branch's programs before verification (off by default; not a sandbox)
+ *   --tools <dir>          Let branches call tools (calculator, file read/search in <dir>; the code runner also needs --exec)
+ *   --trace <dir>          Write one JSONL trace per run to <dir> (default: ./ardr-traces)
+ *   --no-trace             Do not write run traces
+ *   --cache <dir>          Response cache directory, shared with other modes (default: ./ardr-cache)
+ *   --no-cache             Do not cache model responses
+ *   --no-history           Do not read or write the REPL input history (~/.ardr_history)
+ *   replay <trace.jsonl>   Re-run a traced run against its recorded responses (offline)
+ *   eval <dataset.jsonl>   Score tiers and a single-model baseline on a reference dataset
+ *     --tiers low,high       Tiers to evaluate (default: high)
+ *     --baseline <model>     Baseline model (default: the high tier chief); --no-baseline skips it
+ *     --judge <model>        Model for "judge" items (default: the cheap model)
+ *     --mock <rules.json>    Answer every call from mock rules instead of OpenRouter
+ *     --out <report.json>    Write the full report as JSON
+ *   calibrate <report.json...>  Fit the uncertainty calibration on saved eval reports (offline)
+ *     --out <file.json>      Write it as a config fragment to merge into ardr.config.json
+ *   run --input <prompts.jsonl> --output <results.jsonl>  Answer a prompt file without the REPL
+ *     --concurrency <n>      Prompts run at the same time (default: 1)
+ *                            Prompts already answered in the output file are skipped
+ *   ask ["<prompt>"]       Answer one prompt (read from stdin when omitted) and print the answer
+ *                            @path in the prompt attaches that file, directory or glob
+ *     --json                 Print the full result record instead of the answer
+ *   --mock <rules.json>    Answer every call from mock rules instead of OpenRouter (no API key needed)
+ *
+ * EXIT CODES (run / ask):
+ *   0 success, 1 a prompt failed, 2 invalid usage or input, 130 cancelled with Ctrl-C
  * 
  * EXAMPLES:
  *   npx tsx scripts/ardr/ARDR.ts                    # Interactive mode, high tier
  *   npx tsx scripts/ardr/ARDR.ts --tier max         # Use max tier (Opus 4.5)
  *   npx tsx scripts/ardr/ARDR.ts --tier low --debug # Low tier with debug output
+ *   npx tsx scripts/ardr/ARDR.ts --serve --port 8787 # Serve ardr-low|high|max at /v1/chat/completions
+ *   npx tsx scripts/ardr/ARDR.ts --profile fast --set thresholds.uncertainty=0.4
+ *   npx tsx scripts/ardr/ARDR.ts replay ardr-traces/<run>.jsonl --set thresholds.uncertainty=0.4
+ *   npx tsx scripts/ardr/ARDR.ts eval evals/sample.jsonl --tiers low,high --mock evals/mock.json
+ *   npx tsx scripts/ardr/ARDR.ts calibrate reports/*.json --out calibration.json
+ *   npx tsx scripts/ardr/ARDR.ts run --input prompts.jsonl --output results.jsonl --tier high --concurrency 4
+ *   echo "Is 1001 prime?" | npx tsx scripts/ardr/ARDR.ts ask --tier low
  * 
  * IN-SESSION COMMANDS:
- *   tier low|high|max      Switch reasoning tier
- *   debug                  Toggle debug mode
+ *   Ctrl-C                 Cancel the running query (exits when idle)
+ *   /help                  List the commands
+ *   /tier [low|high|max]   Show or switch the reasoning tier
+ *   /debug [on|off]        Toggle debug mode
+ *   /branches [name,...|all]  List the branches, or let the profiler choose only among the named ones
+ *   /depth [n|default]     Show or cap the recurrence passes per run
+ *   /model [role [model]]  Show the models, or set profiler|cheap|condenser|chief|<branch> for the session
+ *   /cost                  Session usage and the last run's cost breakdown
+ *   /trace                 The last run's trace file and stage timings
+ *   /history               Show the conversation so far
+ *   /clear                 Forget the conversation
+ *   /save <file>           Save the conversation to a JSON file
+ *   /load <file>           Restore a saved conversation
+ *   /graph <file.dot|json> Export the last run's claim evidence graph (Graphviz DOT or JSON)
+ *   /cache [on|off|clear]  Show cache stats, answer fresh (off) or from the cache (on), or empty it
+ *   /attach <path|glob>    Attach files to every following query (no argument: list them)
+ *   /detach [path]         Stop attaching one path, or all of them
+ *   @path in a query       Attach a file, directory or glob to that query only
+ *   """ ... """            Multi-line input; pasted lines are also kept together
  *   exit / quit            End session
+ *   Tab completes commands, their arguments and @paths; input history is kept in ~/.ardr_history
  * 
  * PIPELINE STAGES:
  *   Stage 0: Task Profiler - Analyzes complexity and allocates reasoning budget
@@ -42,23 +101,46 @@
  * ═══════════════════════════════════════════════════════════════════════════════
  */
 
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as readline from "readline";
-import { NexusTier, ARDRState } from "./ARDR_types";
+import { AttachmentSettings, NexusTier, PipelineConfig } from "./ARDR_types";
 import { colors } from "./ARDR_models";
-import { initializeOpenAI, log } from "./ARDR_utils";
-import { 
-  stage0_TaskProfiler, 
-  stageA_StructuredDecomposition, 
-  stageB_DendriticBranches,
-  stageC_Verification,
-  stageD_AdaptiveRecurrence,
-  stageFinal_GrandSynthesis,
-  handleConversation
-} from "./ARDR_stages";
+import { log, RunCancelledError } from "./ARDR_utils";
+import { consoleRenderer } from "./ARDR_events";
+import { ARDRInstance, ARDRRunResult, createARDR, replayTrace } from "./ARDR_pipeline";
+import { ConfigError, applyOverride, resolvePipelineConfig, validatePipelineConfig } from "./ARDR_config";
+import { startServer } from "./ARDR_server";
+import { createSession, clearSession, formatTranscript, saveSession, loadSession } from "./ARDR_session";
+import { formatCost, formatCostReport } from "./ARDR_costs";
+import { createMockProvider, loadMockRules } from "./ARDR_providers";
+import { EvalReport, fitReportCalibration, formatEvalReport, runEval } from "./ARDR_eval";
+import { formatGraphDot } from "./ARDR_graph";
+import { MIN_CALIBRATION_SAMPLES } from "./ARDR_uncertainty";
+import { BatchPrompt, batchRecord, loadPrompts, runBatch } from "./ARDR_batch";
+import { extractReferences, loadAttachments } from "./ARDR_attachments";
+import { getBranch, listBranches } from "./ARDR_branches";
+import { ReplCommand, completePath, createCompleter, createInputReader, findCommand, formatCommandHelp, loadHistory, parseCommand, saveHistory } from "./ARDR_repl";
+
+const DEFAULT_TRACE_DIR = "ardr-traces";
+const DEFAULT_CACHE_DIR = "ardr-cache";
+const DEFAULT_HISTORY_FILE = path.join(os.homedir(), ".ardr_history");
+const HISTORY_SIZE = 500;
+const TIERS: NexusTier[] = ["low", "high", "max"];
+const MODEL_ROLES = ["profiler", "cheap", "condenser", "chief"];
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_CANCELLED = 130;
+
+class UsageError extends Error {}
 
 const OPENROUTER_API_KEY = "YOUR_OPENROUTER_API_KEY";
 
-if (OPENROUTER_API_KEY === "YOUR_OPENROUTER_API_KEY") {
+// Replays are served from the trace file and mocked runs from the rules file; neither reaches OpenRouter
+const offline = process.argv[2] === "replay" || process.argv[2] === "calibrate" || process.argv.includes("--mock");
+if (OPENROUTER_API_KEY === "YOUR_OPENROUTER_API_KEY" && !offline) {
   console.error(`
 ${colors.red}${colors.bright}Error: API key not configured${colors.reset}
 
@@ -71,71 +153,232 @@ With your actual OpenRouter API key from:
   process.exit(1);
 }
 
-initializeOpenAI(OPENROUTER_API_KEY);
+async function replay(file: string, overrides: string[], debug: boolean) {
+  if (!file) throw new UsageError("Usage: replay <trace.jsonl> [--set key.path=value] [--debug]");
 
-async function runARDR(prompt: string, tier: NexusTier, debug: boolean): Promise<string> {
-  console.log(`\n${colors.bgMagenta}${colors.white}${colors.bright} ARDR - ${tier.toUpperCase()} MODE ${colors.reset}\n`);
-  
-  const state: ARDRState = {
-    originalPrompt: prompt,
-    tier,
-    budget: null as any,
-    triPack: null as any,
-    scratchpad: { entries: [], sharedArtifacts: new Map() },
-    branchOutputs: [],
-    verification: null as any,
-    recurrenceCount: 0,
-    finalResponse: ""
-  };
+  const { result, trace, stats, searches, identical } = await replayTrace(file, { overrides, debug, listeners: [consoleRenderer] });
+  log("Replay", `${trace.header.prompt.slice(0, 60)} [${trace.header.tier.toUpperCase()}]`, colors.cyan);
+  log("Replay", `Responses: ${stats.exact} exact, ${stats.approximate} approximate, ${stats.missing} missing`,
+    stats.missing > 0 ? colors.yellow : colors.green);
+  if (searches.served + searches.missing > 0) {
+    log("Replay", `Document searches: ${searches.served} recorded, ${searches.missing} missing`,
+      searches.missing > 0 ? colors.yellow : colors.green);
+  }
+  if (trace.failure) {
+    log("Replay", `Recorded run failed: ${trace.failure.message}`, colors.yellow);
+  } else {
+    log("Replay", identical ? "Final response identical to the recording" : "Final response differs from the recording",
+      identical ? colors.green : colors.yellow);
+    log("Replay", `Recurrence passes: ${trace.result?.state.recurrenceCount} recorded, ${result.state.recurrenceCount} replayed`, colors.cyan);
+  }
+}
 
-  state.budget = await stage0_TaskProfiler(prompt, tier, debug);
-
-  if (state.budget.taskType === "conversation" || state.budget.branches.length === 0) {
-    log("Profiler", "Detected conversational input - using fast path", colors.green);
-    return await handleConversation(prompt, tier);
-  }
-
-  state.triPack = await stageA_StructuredDecomposition(prompt, state.budget, debug);
-
-  state.branchOutputs = await stageB_DendriticBranches(
-    prompt, state.triPack, state.budget, state.scratchpad, debug
-  );
-
-  state.verification = await stageC_Verification(
-    prompt, state.triPack, state.branchOutputs, state.scratchpad, debug
-  );
-
-  let shouldContinue = true;
-  while (shouldContinue && state.recurrenceCount < state.budget.allowedDepth) {
-    const recurrenceResult = await stageD_AdaptiveRecurrence(
-      prompt, state.triPack, state.branchOutputs, state.scratchpad,
-      state.verification, state.budget, state.recurrenceCount, debug
-    );
-    
-    state.branchOutputs = recurrenceResult.updatedBranches;
-    
-    if (recurrenceResult.shouldRecur) {
-      state.recurrenceCount++;
-      state.verification = await stageC_Verification(
-        prompt, state.triPack, state.branchOutputs, state.scratchpad, debug
-      );
-    } else {
-      shouldContinue = false;
-    }
+async function evaluate(dataset: string, args: string[], overrides: string[]) {
+  if (!dataset) throw new UsageError("Usage: eval <dataset.jsonl> [--tiers low,high] [--baseline <model>|--no-baseline] [--judge <model>] [--mock <rules.json>] [--exec] [--out <report.json>]");
+  const option = (name: string) => args.includes(name) ? args[args.indexOf(name) + 1] : undefined;
+
+  const tiers = (option("--tiers") || "high").split(",").map(t => t.trim()) as NexusTier[];
+  const invalid = tiers.filter(t => !["low", "high", "max"].includes(t));
+  if (invalid.length > 0) throw new Error(`Invalid tier: ${invalid.join(", ")}. Use: low, high, or max`);
+
+  const pipeline = resolvePipelineConfig({
+    path: option("--config"),
+    profile: option("--profile"),
+    overrides: args.includes("--exec") ? [...overrides, "execution.enabled=true"] : overrides
+  });
+  const mockRules = option("--mock");
+  const report = await runEval(dataset, {
+    ardr: mockRules
+      ? { providers: [createMockProvider(loadMockRules(mockRules))], defaultProvider: "mock", pipeline }
+      : { apiKey: OPENROUTER_API_KEY, pipeline },
+    tiers,
+    baselineModel: args.includes("--no-baseline") ? null : option("--baseline"),
+    judgeModel: option("--judge"),
+    listeners: args.includes("--debug") ? [consoleRenderer] : [],
+    onResult: r => log(r.system, `${r.id}: ${r.error ? `error - ${r.error}` : r.scoreError ? `not scored - ${r.scoreError}` : r.score.correct ? "correct" : `wrong - ${r.score.detail}`}`,
+      r.score.correct ? colors.green : colors.red)
+  });
+
+  console.log();
+  formatEvalReport(report).forEach(line => console.log(line));
+  const out = option("--out");
+  if (out) {
+    fs.writeFileSync(out, JSON.stringify(report, null, 2), "utf8");
+    log("Eval", `Report written to ${out}`, colors.cyan);
   }
+}
+
+function calibrate(args: string[]) {
+  const out = args.includes("--out") ? args[args.indexOf("--out") + 1] : undefined;
+  const files = args.slice(1).filter((arg, i, rest) => !arg.startsWith("--") && rest[i - 1] !== "--out");
+  if (files.length === 0) throw new UsageError("Usage: calibrate <report.json> [more reports...] [--out <calibration.json>]");
 
-  state.finalResponse = await stageFinal_GrandSynthesis(prompt, state, debug);
+  const reports = files.map(file => JSON.parse(fs.readFileSync(file, "utf8")) as EvalReport);
+  const { calibration, samples } = fitReportCalibration(reports);
+  if (!calibration) {
+    throw new Error(`Cannot fit a calibration from ${samples} scored pipeline runs: need at least ${MIN_CALIBRATION_SAMPLES}, with both correct and wrong answers`);
+  }
 
-  return state.finalResponse;
+  log("Calibrate", `Fitted on ${samples} runs: slope ${calibration.slope.toFixed(3)}, intercept ${calibration.intercept.toFixed(3)}`, colors.green);
+  const fragment = { uncertainty: { calibration } };
+  if (out) {
+    fs.writeFileSync(out, JSON.stringify(fragment, null, 2), "utf8");
+    log("Calibrate", `Written to ${out}; merge it into ardr.config.json`, colors.cyan);
+  } else {
+    console.log(JSON.stringify(fragment, null, 2));
+  }
+}
+
+// Outside the REPL, Ctrl-C cancels the runs in flight and lets the command report what it finished
+function cancelOnInterrupt(): AbortController {
+  const controller = new AbortController();
+  process.on('SIGINT', () => controller.abort());
+  return controller;
+}
+
+async function batch(ardr: ARDRInstance, args: string[], tier: NexusTier, debug: boolean): Promise<number> {
+  const option = (name: string) => args.includes(name) ? args[args.indexOf(name) + 1] : undefined;
+  const input = option("--input");
+  const output = option("--output");
+  if (!input || !output) {
+    throw new UsageError("Usage: run --input <prompts.jsonl> --output <results.jsonl> [--tier low|high|max] [--concurrency <n>]");
+  }
+  const concurrency = Number(option("--concurrency") ?? 1);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError("--concurrency must be a positive integer");
+
+  let prompts: BatchPrompt[];
+  try {
+    prompts = loadPrompts(input);
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+
+  const cancel = cancelOnInterrupt();
+  const summary = await runBatch(ardr, prompts, {
+    output,
+    tier,
+    concurrency,
+    signal: cancel.signal,
+    run: { debug, listeners: debug ? [consoleRenderer] : [] },
+    onRecord: r => log("Batch", r.error
+      ? `${r.id}: failed - ${r.error}`
+      : `${r.id}: ${r.uncertainty === null ? "fast path" : `uncertainty ${r.uncertainty.toFixed(2)}`} | ${formatCost(r.cost)} | ${(r.durationMs / 1000).toFixed(1)}s`,
+      r.error ? colors.red : colors.green)
+  });
+
+  log("Batch", `${summary.succeeded} answered, ${summary.failed} failed, ${summary.skipped} already in ${output}${summary.cancelled ? " - cancelled" : ""}`,
+    summary.failed > 0 || summary.cancelled ? colors.yellow : colors.cyan);
+  return summary.cancelled ? EXIT_CANCELLED : summary.failed > 0 ? EXIT_FAILED : 0;
+}
+
+async function ask(ardr: ARDRInstance, args: string[], tier: NexusTier, debug: boolean, settings: AttachmentSettings): Promise<number> {
+  const given = args[1] && !args[1].startsWith("--") ? args[1] : undefined;
+  if (given === undefined && process.stdin.isTTY) {
+    throw new UsageError('Usage: ask "<prompt>" [--tier low|high|max] [--json], or pipe the prompt on stdin');
+  }
+  const { prompt, question, references } = extractReferences((given ?? fs.readFileSync(0, "utf8")).trim());
+  if (!prompt) throw new UsageError("ask: the prompt is empty");
+  if (!question) throw new UsageError("ask: the prompt only attaches files; add a question about them");
+  const { attachments, warnings } = loadAttachments(references, settings);
+  warnings.forEach(warning => console.error(`${colors.yellow}${warning}${colors.reset}`));
+
+  const cancel = cancelOnInterrupt();
+  try {
+    const result = await ardr.run(prompt, { tier, debug, listeners: debug ? [consoleRenderer] : [], signal: cancel.signal, attachments });
+    console.log(args.includes("--json") ? JSON.stringify(batchRecord({ id: "ask", prompt }, result), null, 2) : result.finalResponse);
+    return 0;
+  } catch (error: any) {
+    if (error instanceof RunCancelledError) {
+      console.error(`${colors.yellow}Cancelled${colors.reset}`);
+      return EXIT_CANCELLED;
+    }
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    return EXIT_FAILED;
+  }
 }
 
 async function main() {
   const args = process.argv.slice(2);
-  const tier: NexusTier = args.includes("--tier") 
-    ? (args[args.indexOf("--tier") + 1] as NexusTier) || "high"
-    : "high";
+  const overrides = args.flatMap((arg, i) => arg === "--set" && args[i + 1] ? [args[i + 1]] : []);
+
+  if (args[0] === "replay") {
+    await replay(args[1], overrides, args.includes("--debug"));
+    return;
+  }
+
+  if (args[0] === "eval") {
+    await evaluate(args[1], args, overrides);
+    return;
+  }
+
+  if (args[0] === "calibrate") {
+    calibrate(args);
+    return;
+  }
+
+  if (args.includes("--max-cost")) {
+    overrides.push(`maxRunCost=${args[args.indexOf("--max-cost") + 1]}`);
+  }
+  if (args.includes("--docs")) {
+    overrides.push("retrieval.enabled=true", `retrieval.dir=${args[args.indexOf("--docs") + 1]}`);
+  }
+  if (args.includes("--exec")) {
+    overrides.push("execution.enabled=true");
+  }
+  if (args.includes("--tools")) {
+    overrides.push("tools.enabled=true", `tools.root=${args[args.indexOf("--tools") + 1]}`);
+  }
+  if (args.includes("--deadline")) {
+    overrides.push(`deadline.runMs=${Math.round(parseFloat(args[args.indexOf("--deadline") + 1]) * 1000)}`);
+  }
+  const tier = (args.includes("--tier") ? args[args.indexOf("--tier") + 1] : "high") as NexusTier;
+  if (!TIERS.includes(tier)) {
+    throw new UsageError(`--tier must be one of ${TIERS.join(", ")}${tier ? `, not "${tier}"` : ""}`);
+  }
+  const pipeline = resolvePipelineConfig({
+    path: args.includes("--config") ? args[args.indexOf("--config") + 1] : undefined,
+    profile: args.includes("--profile") ? args[args.indexOf("--profile") + 1] : undefined,
+    overrides
+  });
+  const traceDir = args.includes("--no-trace")
+    ? undefined
+    : args.includes("--trace") ? args[args.indexOf("--trace") + 1] : DEFAULT_TRACE_DIR;
+  const cacheDir = args.includes("--cache") ? args[args.indexOf("--cache") + 1] : DEFAULT_CACHE_DIR;
+  const historyFile = args.includes("--no-history") ? undefined : DEFAULT_HISTORY_FILE;
+  const mockRules = args.includes("--mock") ? args[args.indexOf("--mock") + 1] : undefined;
+  const ardr = createARDR({
+    ...(mockRules
+      ? { providers: [createMockProvider(loadMockRules(mockRules))], defaultProvider: "mock" }
+      : { apiKey: OPENROUTER_API_KEY }),
+    pipeline,
+    traceDir,
+    cacheDir,
+    cache: args.includes("--no-cache") || mockRules ? false : undefined
+  });
+
   const debug = args.includes("--debug");
 
+  if (args[0] === "run") {
+    process.exitCode = await batch(ardr, args, tier, debug);
+    return;
+  }
+
+  if (args[0] === "ask") {
+    process.exitCode = await ask(ardr, args, tier, debug, pipeline.attachments);
+    return;
+  }
+
+  if (args.includes("--serve")) {
+    const port = args.includes("--port") ? parseInt(args[args.indexOf("--port") + 1], 10) : 8787;
+    await startServer(ardr, {
+      port,
+      debug,
+      onRequest: (model, prompt) => log("Server", `${model} <- ${prompt.slice(0, 80)}`, colors.cyan)
+    });
+    log("Server", `ARDR listening on http://127.0.0.1:${port}/v1/chat/completions`, colors.green);
+    return;
+  }
+
   console.log(`
 ${colors.bright}${colors.cyan}╔═══════════════════════════════════════════════════════════════╗
 ║                                                               ║
@@ -151,79 +394,422 @@ ${colors.bright}${colors.cyan}╔═══════════════
 ╚═══════════════════════════════════════════════════════════════╝${colors.reset}
 
 ${colors.dim}Tier: ${tier.toUpperCase()} | Debug: ${debug ? "ON" : "OFF"}${colors.reset}
-${colors.dim}Type your query or 'exit' to quit. Use 'tier low|high|max' to switch.${colors.reset}
+${colors.dim}Type your query, /help for the commands, or 'exit' to quit. Start a line with """ for multi-line input.${colors.reset}
 `);
 
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout
-  });
-
   let currentTier = tier;
   let currentDebug = debug;
+  let session = createSession();
+  let lastResult: ARDRRunResult | null = null;
+  let bypassCache = false;
+  // Re-read on every query, so edits to an attached file are picked up
+  let attached: string[] = [];
+  // /branches, /depth and /model changes, as key.path=value overrides of the startup config
+  let settings = new Map<string, string>();
+  let runConfig = pipeline;
+  let running: AbortController | null = null;
   let isClosed = false;
 
-  rl.on('close', () => {
-    isClosed = true;
-    console.log(`\n${colors.cyan}Session ended.${colors.reset}\n`);
-    process.exit(0);
-  });
+  const print = (color: string, text: string) => console.log(`${color}${text}${colors.reset}`);
 
-  process.on('SIGINT', () => {
-    console.log(`\n${colors.cyan}Interrupted. Goodbye!${colors.reset}\n`);
-    rl.close();
-    process.exit(0);
-  });
+  // An invalid change is reported and leaves the settings as they were
+  const changeSettings = (changes: Record<string, string | null>): boolean => {
+    const next = new Map(settings);
+    Object.entries(changes).forEach(([key, value]) => value === null ? next.delete(key) : next.set(key, value));
+    let config = pipeline;
+    next.forEach((value, key) => {
+      config = applyOverride(config, `${key}=${value}`) as PipelineConfig;
+    });
+    const issues = validatePipelineConfig(config);
+    if (issues.length > 0) {
+      print(colors.red, issues.join("\n"));
+      return false;
+    }
+    settings = next;
+    runConfig = config;
+    return true;
+  };
 
-  const promptUser = () => {
-    if (isClosed) return;
-    
-    rl.question(`\n${colors.bright}${colors.green}You [${currentTier.toUpperCase()}]>${colors.reset} `, async (input) => {
-      if (isClosed) return;
-      
-      const trimmed = input?.trim() || "";
-      
-      if (trimmed.toLowerCase() === "exit" || trimmed.toLowerCase() === "quit") {
-        console.log(`\n${colors.cyan}Goodbye!${colors.reset}\n`);
-        rl.close();
-        process.exit(0);
-      }
+  const modelRole = (role: string): { key: string; model: string } | null => {
+    if (role === "profiler" || role === "cheap" || role === "condenser") {
+      return { key: `models.${role}`, model: runConfig.models[role] };
+    }
+    if (role === "chief") {
+      return { key: `tiers.${currentTier}.chiefModel`, model: runConfig.tiers[currentTier].chiefModel };
+    }
+    const branch = getBranch(role);
+    return branch
+      ? { key: `branches.${role}.model`, model: runConfig.branches[role]?.model || branch.model || runConfig.models.cheap }
+      : null;
+  };
 
-      if (trimmed.toLowerCase().startsWith("tier ")) {
-        const newTier = trimmed.slice(5).toLowerCase() as NexusTier;
-        if (["low", "high", "max"].includes(newTier)) {
-          currentTier = newTier;
-          console.log(`${colors.green}Switched to ${newTier.toUpperCase()} mode${colors.reset}`);
+  const commands: ReplCommand[] = [
+    {
+      name: "help",
+      description: "List the commands",
+      run() {
+        formatCommandHelp(commands).forEach(line => print(colors.dim, line));
+        print(colors.dim, `
+Anything else is sent as a query; @path in it attaches a file, directory or glob.
+Start a line with """ to write several lines and end the last one with """. Pasted text stays together.
+Tab completes commands, their arguments and @paths. Ctrl-C cancels the running query.`);
+      }
+    },
+    {
+      name: "tier",
+      usage: "[low|high|max]",
+      description: "Show or switch the reasoning tier",
+      complete: () => TIERS,
+      run(arg) {
+        if (!arg) return print(colors.dim, `Tier: ${currentTier.toUpperCase()}`);
+        if (!TIERS.includes(arg as NexusTier)) return print(colors.red, "Invalid tier. Use: low, high, or max");
+        currentTier = arg as NexusTier;
+        print(colors.green, `Switched to ${currentTier.toUpperCase()} mode`);
+      }
+    },
+    {
+      name: "debug",
+      usage: "[on|off]",
+      description: "Toggle debug output",
+      complete: () => ["on", "off"],
+      run(arg) {
+        if (arg && arg !== "on" && arg !== "off") return print(colors.red, "Usage: /debug [on|off]");
+        currentDebug = arg ? arg === "on" : !currentDebug;
+        print(colors.yellow, `Debug mode: ${currentDebug ? "ON" : "OFF"}`);
+      }
+    },
+    {
+      name: "branches",
+      usage: "[name,...|all]",
+      description: "List the branches, or let the profiler choose only among the named ones",
+      complete: partial => {
+        const word = partial.split(/\s+/).pop() || "";
+        const chosen = word.slice(0, word.lastIndexOf(",") + 1);
+        return [...(chosen ? [] : ["all"]), ...listBranches().map(b => b.name)].map(name => chosen + name);
+      },
+      run(arg) {
+        const branches = listBranches();
+        if (!arg) {
+          branches.forEach(b => {
+            const enabled = runConfig.branches[b.name]?.enabled !== false;
+            print(enabled ? colors.reset : colors.dim, `${enabled ? "on " : "off"} ${b.name.padEnd(12)} ${modelRole(b.name)!.model.padEnd(36)} ${b.description}`);
+          });
+          return;
+        }
+        const names = arg === "all" ? [] : arg.split(/[\s,]+/).filter(Boolean);
+        const unknown = names.filter(name => !getBranch(name));
+        if (unknown.length > 0) {
+          return print(colors.red, `Unknown branch: ${unknown.join(", ")}. Known: ${branches.map(b => b.name).join(", ")}`);
+        }
+        const changed = changeSettings(Object.fromEntries(branches.map(b => [
+          `branches.${b.name}.enabled`,
+          names.length === 0 || names.includes(b.name) ? null : "false"
+        ])));
+        if (changed) print(colors.green, names.length === 0 ? "All branches enabled" : `Branches: ${names.join(", ")}`);
+      }
+    },
+    {
+      name: "depth",
+      usage: "[n|default]",
+      description: "Show or cap the recurrence passes per run, on every tier",
+      complete: () => ["default", "0", "1", "2", "3"],
+      run(arg) {
+        if (!arg) return print(colors.dim, `Recurrence depth cap: ${TIERS.map(t => `${t} ${runConfig.tiers[t].maxDepth}`).join(", ")}`);
+        if (arg !== "default" && !/^\d+$/.test(arg)) return print(colors.red, "Usage: /depth <n>|default");
+        const changed = changeSettings(Object.fromEntries(TIERS.map(t => [`tiers.${t}.maxDepth`, arg === "default" ? null : arg])));
+        if (changed) print(colors.green, `Recurrence depth cap: ${arg === "default" ? TIERS.map(t => `${t} ${runConfig.tiers[t].maxDepth}`).join(", ") : arg}`);
+      }
+    },
+    {
+      name: "model",
+      usage: "[role [model|default]]",
+      description: "Show the models, or set the profiler, cheap, condenser, chief (current tier) or a branch model",
+      complete: partial => partial.split(/\s+/).length <= 1
+        ? [...MODEL_ROLES, ...listBranches().map(b => b.name)]
+        : ["default", ...Object.keys(runConfig.pricing)],
+      run(arg) {
+        const [role, model] = arg.split(/\s+/);
+        if (!role) {
+          [...MODEL_ROLES, ...listBranches().map(b => b.name)].forEach(name => {
+            print(colors.dim, `${(name === "chief" ? `chief (${currentTier})` : name).padEnd(14)} ${modelRole(name)!.model}`);
+          });
+          return;
+        }
+        const current = modelRole(role);
+        if (!current) return print(colors.red, `Unknown role "${role}". Use ${MODEL_ROLES.join(", ")} or a branch name`);
+        if (!model) return print(colors.dim, `${role}: ${current.model}`);
+        if (changeSettings({ [current.key]: model === "default" ? null : model })) {
+          print(colors.green, `${role}: ${modelRole(role)!.model}`);
+        }
+      }
+    },
+    {
+      name: "cost",
+      description: "Show the session's usage and the last run's cost breakdown",
+      run() {
+        const { runs, totalTokens, cost } = session.usage;
+        print(colors.cyan, `Session: ${runs} runs | ${totalTokens.toLocaleString()} tokens | ${formatCost(cost)}`);
+        if (!lastResult) return;
+        const [summary, ...rows] = formatCostReport(lastResult.cost);
+        print(colors.cyan, `Last run: ${summary}`);
+        rows.forEach(row => print(colors.dim, row));
+      }
+    },
+    {
+      name: "trace",
+      description: "Show the last run's trace file and stage timings",
+      run() {
+        if (!traceDir) return print(colors.yellow, "Tracing is off (--no-trace)");
+        if (!lastResult?.tracePath) return print(colors.dim, `No traced run yet. Traces are written to ${traceDir}`);
+        print(colors.dim, lastResult.tracePath);
+        print(colors.dim, Object.entries(lastResult.timing.stages).map(([stage, ms]) => `${stage} ${(ms / 1000).toFixed(1)}s`).join(" | "));
+        print(colors.dim, `Replay it with: npx tsx ARDR.ts replay ${lastResult.tracePath}`);
+      }
+    },
+    {
+      name: "history",
+      description: "Show the conversation so far",
+      run() {
+        const transcript = formatTranscript(session);
+        print(colors.dim, transcript || "No conversation yet.");
+      }
+    },
+    {
+      name: "clear",
+      description: "Forget the conversation",
+      run() {
+        clearSession(session);
+        print(colors.yellow, "Conversation cleared");
+      }
+    },
+    {
+      name: "save",
+      usage: "<file>",
+      description: "Save the conversation to a JSON file",
+      complete: completePath,
+      run(arg) {
+        if (!arg) return print(colors.red, "Usage: /save <file>");
+        saveSession(session, arg);
+        print(colors.green, `Saved ${session.turns.length} turns to ${arg}`);
+      }
+    },
+    {
+      name: "load",
+      usage: "<file>",
+      description: "Restore a saved conversation",
+      complete: completePath,
+      run(arg) {
+        if (!arg) return print(colors.red, "Usage: /load <file>");
+        session = loadSession(arg);
+        print(colors.green, `Loaded ${session.turns.length} turns from ${arg}`);
+      }
+    },
+    {
+      name: "graph",
+      usage: "<file.dot|json>",
+      description: "Export the last run's claim evidence graph (Graphviz DOT or JSON)",
+      complete: completePath,
+      run(arg) {
+        if (!arg) return print(colors.red, "Usage: /graph <file.dot|json>");
+        const graph = lastResult?.state.verification.graph;
+        if (!graph || graph.claims.length === 0) {
+          return print(colors.yellow, "No evidence graph yet - the last run took the fast path or nothing has run");
+        }
+        fs.writeFileSync(arg, arg.endsWith(".dot") || arg.endsWith(".gv") ? formatGraphDot(graph) : JSON.stringify(graph, null, 2), "utf8");
+        print(colors.green, `Wrote ${graph.claims.length} claims to ${arg}`);
+      }
+    },
+    {
+      name: "cache",
+      usage: "[on|off|clear]",
+      description: "Show cache stats, answer fresh (off) or from the cache (on), or empty it",
+      complete: () => ["on", "off", "clear"],
+      run(arg) {
+        const action = arg.toLowerCase();
+        if (!ardr.cache) {
+          print(colors.yellow, "Response cache is disabled");
+        } else if (action === "clear") {
+          ardr.cache.clear();
+          print(colors.yellow, "Response cache cleared");
+        } else if (action === "on" || action === "off") {
+          bypassCache = action === "off";
+          print(colors.yellow, `Response cache: ${bypassCache ? "OFF (answering fresh)" : "ON"}`);
+        } else if (action) {
+          print(colors.red, "Usage: /cache [on|off|clear]");
         } else {
-          console.log(`${colors.red}Invalid tier. Use: low, high, or max${colors.reset}`);
+          const { entries, hits, misses, dir } = ardr.cache.stats();
+          print(colors.dim, `${entries} entries${dir ? ` in ${dir}` : ""} | ${hits} hits, ${misses} misses this session${bypassCache ? " | bypassed" : ""}`);
         }
-        if (!isClosed) promptUser();
-        return;
       }
-
-      if (trimmed.toLowerCase() === "debug") {
-        currentDebug = !currentDebug;
-        console.log(`${colors.yellow}Debug mode: ${currentDebug ? "ON" : "OFF"}${colors.reset}`);
-        if (!isClosed) promptUser();
-        return;
+    },
+    {
+      name: "attach",
+      usage: "[path|glob]",
+      description: "Attach files to every following query, or list them",
+      complete: completePath,
+      run(arg) {
+        if (!arg) {
+          return print(colors.dim, attached.length > 0
+            ? `Attached to every query: ${attached.join(", ")}`
+            : "Nothing attached. Use /attach <path|glob> or @path in a query.");
+        }
+        const { attachments, warnings } = loadAttachments([arg], pipeline.attachments);
+        warnings.forEach(warning => print(colors.yellow, warning));
+        if (attachments.length === 0) return;
+        if (!attached.includes(arg)) attached.push(arg);
+        const chars = attachments.reduce((sum, a) => sum + a.text.length, 0);
+        print(colors.green, `Attached ${attachments.length} file(s), ${chars.toLocaleString()} characters, from ${arg}`);
       }
-
-      if (!trimmed) {
-        if (!isClosed) promptUser();
-        return;
+    },
+    {
+      name: "detach",
+      usage: "[path]",
+      description: "Stop attaching one path, or all of them",
+      complete: () => attached,
+      run(arg) {
+        if (arg && !attached.includes(arg)) return print(colors.red, `${arg} is not attached`);
+        attached = arg ? attached.filter(a => a !== arg) : [];
+        print(colors.yellow, arg ? `Detached ${arg}` : "Detached all files");
+      }
+    },
+    {
+      name: "exit",
+      aliases: ["quit"],
+      description: "End the session",
+      run() {
+        print(colors.cyan, "\nGoodbye!\n");
+        process.exit(0);
       }
+    }
+  ];
 
-      try {
-        await runARDR(trimmed, currentTier, currentDebug);
-      } catch (error: any) {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    completer: createCompleter(commands),
+    history: historyFile ? loadHistory(historyFile, HISTORY_SIZE) : [],
+    historySize: HISTORY_SIZE
+  });
+  if (historyFile) rl.on('history', history => saveHistory(historyFile, history));
+
+  const showPrompt = () => {
+    if (isClosed) return;
+    rl.setPrompt(`\n${colors.bright}${colors.green}You [${currentTier.toUpperCase()}]>${colors.reset} `);
+    rl.prompt();
+  };
+
+  const runQuery = async (input: string) => {
+    const { prompt, question, references } = extractReferences(input);
+    if (!question) {
+      print(colors.yellow, prompt ? "Add a question to go with the attached files" : "The message is empty");
+      return;
+    }
+    const { attachments, warnings } = loadAttachments([...attached, ...references], pipeline.attachments);
+    warnings.forEach(warning => print(colors.yellow, warning));
+
+    running = new AbortController();
+    try {
+      lastResult = await ardr.run(prompt, {
+        tier: currentTier,
+        debug: currentDebug,
+        session,
+        listeners: [consoleRenderer],
+        signal: running.signal,
+        bypassCache,
+        attachments,
+        pipeline: runConfig
+      });
+      const { runs, totalTokens, cost } = session.usage;
+      log("Session", `${runs} runs | ${totalTokens.toLocaleString()} tokens | ${formatCost(cost)}`, colors.cyan);
+    } catch (error: any) {
+      if (error instanceof RunCancelledError) {
+        console.log(`\n${colors.yellow}Query cancelled${colors.reset}`);
+      } else {
         console.log(`\n${colors.red}Error: ${error.message}${colors.reset}`);
       }
+    } finally {
+      running = null;
+    }
+  };
 
-      if (!isClosed) promptUser();
-    });
+  const handle = async (input: string) => {
+    const trimmed = input.trim();
+    if (!trimmed) return;
+    if (trimmed.toLowerCase() === "exit" || trimmed.toLowerCase() === "quit") {
+      await findCommand(commands, "exit")!.run("");
+      return;
+    }
+
+    // Commands are single lines; a multi-line input starting with a slash is a query
+    const parsed = trimmed.includes("\n") ? null : parseCommand(trimmed);
+    if (!parsed) {
+      await runQuery(trimmed);
+      return;
+    }
+    const command = findCommand(commands, parsed.name);
+    if (!command) {
+      print(colors.red, `Unknown command /${parsed.name}. Type /help for the list.`);
+      return;
+    }
+    try {
+      await command.run(parsed.arg);
+    } catch (error: any) {
+      print(colors.red, error.message);
+    }
+  };
+
+  // Input that arrives while a query runs waits its turn
+  const queue: string[] = [];
+  let busy = false;
+  const submit = async (input: string) => {
+    queue.push(input);
+    if (busy) return;
+    busy = true;
+    while (queue.length > 0) await handle(queue.shift()!);
+    busy = false;
+    if (isClosed) {
+      print(colors.cyan, "\nSession ended.\n");
+      process.exit(0);
+    }
+    showPrompt();
+  };
+
+  createInputReader(rl, submit, {
+    // Piped input arrives all at once, which is not a paste
+    detectPaste: process.stdin.isTTY === true,
+    onContinue: () => {
+      if (busy) return;
+      rl.setPrompt(`${colors.dim}...${colors.reset} `);
+      rl.prompt();
+    }
+  });
+
+  rl.on('close', () => {
+    isClosed = true;
+    if (busy) return;
+    print(colors.cyan, "\nSession ended.\n");
+    process.exit(0);
+  });
+
+  // Ctrl-C cancels the query in progress, and the input queued behind it, and keeps the
+  // session; when idle it exits. readline reports it on a TTY, the process signal covers piped input
+  const interrupt = () => {
+    if (running) {
+      queue.length = 0;
+      running.abort();
+      return;
+    }
+    console.log(`\n${colors.cyan}Interrupted. Goodbye!${colors.reset}\n`);
+    rl.close();
+    process.exit(0);
   };
+  rl.on('SIGINT', interrupt);
+  process.on('SIGINT', interrupt);
 
-  promptUser();
+  showPrompt();
 }
 
-main().catch(console.error);
+main().catch(error => {
+  console.error(`${colors.red}${error.message}${colors.reset}`);
+  process.exit(error instanceof UsageError || error instanceof ConfigError ? EXIT_USAGE : EXIT_FAILED);
+});